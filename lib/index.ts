@@ -1,4 +1,41 @@
 export * from './src/markdown-editor';
+export * from './src/markdown-editor-types';
+export {
+  MarkdownEditorCompletion,
+  MarkdownEditorCompletionContext,
+  MarkdownEditorCompletionProvider,
+  EMOJI_COMPLETION_PROVIDER,
+  HEADING_COMPLETION_PROVIDER,
+} from './src/markdown-completion';
+export {
+  MarkdownEditorLintRule,
+  MarkdownEditorLintContext,
+  MarkdownEditorLintIssue,
+  BUILT_IN_LINT_RULES,
+} from './src/markdown-lint';
+export {
+  MarkdownEditorSpellChecker,
+  MarkdownEditorIgnoreListStorage,
+  LocalStorageIgnoreListStorage,
+} from './src/markdown-spell-check';
+export { MarkdownEditorFrontMatterParser, DEFAULT_FRONT_MATTER_PARSER } from './src/markdown-front-matter';
+export {
+  MarkdownEditorDraftStorage,
+  LocalStorageDraftStorage,
+  IndexedDbDraftStorage,
+  MemoryDraftStorage,
+} from './src/markdown-draft-storage';
+export { htmlToMarkdown, HtmlToMarkdownOptions } from './src/html-to-markdown';
+export {
+  renderMarkdown,
+  renderHtmlDocument,
+  markdownToPlainText,
+  MarkdownRenderOptions,
+  MarkdownNode,
+  DEFAULT_ALLOWED_TAGS,
+  DEFAULT_ALLOWED_ATTRIBUTES,
+  DEFAULT_ALLOWED_URL_SCHEMES,
+} from './src/markdown-renderer';
 export {
   MarkdownEditorOptions,
   MarkdownEditorAction,
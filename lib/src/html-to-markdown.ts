@@ -0,0 +1,436 @@
+import { DEFAULT_OPTIONS, MarkdownEditorOptionsComplete } from './markdown-editor-options';
+import { createTable, formatTable } from './markdown-table';
+import { MarkdownEditorTableAlignment } from './markdown-editor-types';
+import { formatUrl } from './markdown-links';
+
+/**
+ * Options to configure `htmlToMarkdown()`.
+ */
+export interface HtmlToMarkdownOptions {
+  /**
+   * Preferred tokens for every format markup that allows different markup styles.
+   * Defaults to the preferred tokens of `DEFAULT_OPTIONS`. Bold and italic text inside of words or next to other
+   * bold or italic text may use the other token, e.g. `foo*bar*baz`, because the preferred one would not work there.
+   */
+  preferredTokens?: Partial<MarkdownEditorOptionsComplete['preferredTokens']>;
+}
+
+type PreferredTokens = MarkdownEditorOptionsComplete['preferredTokens'];
+
+const IGNORED_ELEMENTS = ['HEAD', 'LINK', 'META', 'NOSCRIPT', 'SCRIPT', 'STYLE', 'TEMPLATE', 'TITLE'];
+
+const BLOCK_ELEMENTS = [
+  'ADDRESS',
+  'ARTICLE',
+  'ASIDE',
+  'BLOCKQUOTE',
+  'BODY',
+  'DD',
+  'DETAILS',
+  'DIV',
+  'DL',
+  'DT',
+  'FIELDSET',
+  'FIGCAPTION',
+  'FIGURE',
+  'FOOTER',
+  'FORM',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HEADER',
+  'HR',
+  'LI',
+  'MAIN',
+  'NAV',
+  'OL',
+  'P',
+  'PRE',
+  'SECTION',
+  'SUMMARY',
+  'TABLE',
+  'UL',
+];
+
+/**
+ * Elements whose Markdown counterpart is worth converting. HTML without any of them is plain text,
+ * e.g. code copied from an IDE, which is better pasted as is.
+ */
+const FORMATTING_ELEMENTS = [
+  'A',
+  'B',
+  'BLOCKQUOTE',
+  'CODE',
+  'DEL',
+  'EM',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HR',
+  'I',
+  'IMG',
+  'OL',
+  'PRE',
+  'S',
+  'STRIKE',
+  'STRONG',
+  'TABLE',
+  'UL',
+];
+
+/**
+ * Convert HTML, e.g. copied from a web page or a word processor, to Markdown.
+ *
+ * Supports headings, bold, italic and strikethrough text, links, images, (nested) lists including check lists,
+ * blockquotes, inline code, code blocks, horizontal rules and tables. Other elements are converted to their
+ * text content.
+ * @param html the HTML
+ * @param options options to configure the conversion
+ * @returns the Markdown
+ */
+export function htmlToMarkdown(html: string, options: HtmlToMarkdownOptions = {}): string {
+  const tokens = { ...DEFAULT_OPTIONS.preferredTokens, ...options.preferredTokens };
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  return convertBlock(body, tokens);
+}
+
+/**
+ * Returns whether the HTML contains any element which has a Markdown counterpart except paragraphs.
+ * @param html the HTML
+ */
+export function containsFormattedHtml(html: string): boolean {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  return !!body.querySelector(FORMATTING_ELEMENTS.join(','));
+}
+
+/**
+ * Returns whether the node is rendered as a block, i.e. is a block element or contains one.
+ */
+function isBlock(node: Node): boolean {
+  if (!(node instanceof Element)) return false;
+  return BLOCK_ELEMENTS.includes(node.tagName) || !!node.querySelector(BLOCK_ELEMENTS.join(','));
+}
+
+/**
+ * Convert the children of a node into Markdown blocks separated by blank lines.
+ * Consecutive inline children form a paragraph.
+ */
+function convertBlock(node: Node, tokens: PreferredTokens): string {
+  const blocks: { content: string; list: boolean }[] = [];
+  let inlineContent = '';
+  const flushInlineContent = () => {
+    const paragraph = cleanUpInline(inlineContent)
+      .split('\n')
+      .map((line) => line.replace(/^(#{1,6}\s|>|[-+*]\s)/, '\\$1').replace(/^(\d+)([.)]\s)/, '$1\\$2'))
+      .join('\n');
+    if (paragraph) blocks.push({ content: paragraph, list: false });
+    inlineContent = '';
+  };
+
+  node.childNodes.forEach((child) => {
+    if (child instanceof Element && IGNORED_ELEMENTS.includes(child.tagName)) return;
+    if (isBlock(child)) {
+      flushInlineContent();
+      const content = convertBlockElement(child as Element, tokens);
+      if (content.trim()) blocks.push({ content, list: ['UL', 'OL'].includes((child as Element).tagName) });
+    } else {
+      inlineContent += convertInline(child, tokens);
+    }
+  });
+  flushInlineContent();
+
+  // Nested lists directly follow the content of their list item
+  const isListItem = node instanceof Element && node.tagName === 'LI';
+  return blocks.map((block, i) => (i === 0 ? '' : isListItem && block.list ? '\n' : '\n\n') + block.content).join('');
+}
+
+/**
+ * Convert a block element into Markdown.
+ */
+function convertBlockElement(element: Element, tokens: PreferredTokens): string {
+  switch (element.tagName) {
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6': {
+      const content = cleanUpInline(convertInline(element, tokens)).replace(/\\?\n/g, ' ');
+      return content ? '#'.repeat(+element.tagName[1]) + ' ' + content : '';
+    }
+    case 'BLOCKQUOTE':
+      return convertBlock(element, tokens)
+        .split('\n')
+        .map((line) => (line ? '> ' + line : '>'))
+        .join('\n');
+    case 'PRE':
+      return convertCodeBlock(element, tokens);
+    case 'UL':
+    case 'OL':
+      return convertList(element, tokens);
+    case 'HR':
+      return tokens.horizontalRule;
+    case 'TABLE':
+      return convertTable(element, tokens);
+    default:
+      return convertBlock(element, tokens);
+  }
+}
+
+/**
+ * Convert a `<pre>` element into a fenced code block. The language is taken from a
+ * `language-*` or `lang-*` class of the element or its `<code>` child.
+ */
+function convertCodeBlock(element: Element, tokens: PreferredTokens): string {
+  const code = element.querySelector('code') || element;
+  const language = `${code.className} ${element.className}`.match(/(?:^|\s)(?:language|lang)-(\S+)/)?.[1] || '';
+  const clone = code.cloneNode(true) as Element;
+  clone.querySelectorAll('br').forEach((br) => br.replaceWith('\n'));
+  const content = (clone.textContent || '').replace(/\n$/, '');
+
+  let fence = tokens.codeBlock;
+  while (content.includes(fence)) fence += fence[0];
+  return `${fence}${language}\n${content}\n${fence}`;
+}
+
+/**
+ * Convert a `<ul>` or `<ol>` element into a list. Nested lists are indented to the content of their parent item.
+ */
+function convertList(list: Element, tokens: PreferredTokens): string {
+  const start = parseInt(list.getAttribute('start') || '', 10);
+  let listNumber = isNaN(start) ? 1 : start;
+  const items: string[] = [];
+
+  for (const item of Array.from(list.children)) {
+    // A list nested directly inside a list (instead of an item) belongs to the previous item
+    if (item.tagName !== 'LI') {
+      const content = convertBlockElement(item, tokens);
+      if (!content.trim()) continue;
+      const indentation = items.length ? ' '.repeat(items[items.length - 1].search(/\s/) + 1) : '';
+      const indentedContent = content.replace(/^(?=.)/gm, indentation);
+      if (items.length) items[items.length - 1] += '\n' + indentedContent;
+      else items.push(indentedContent);
+      continue;
+    }
+
+    const checkbox = item.querySelector('input[type="checkbox"]') as HTMLInputElement | null;
+    const isTask = !!checkbox && checkbox.closest('li') === item;
+    let marker = list.tagName === 'OL' ? `${listNumber++}.` : tokens.unorderedList;
+    if (isTask) marker = `${tokens.checkList} [${checkbox?.checked || checkbox?.hasAttribute('checked') ? 'x' : ' '}]`;
+
+    const indentation = ' '.repeat(isTask ? tokens.checkList.length + 1 : marker.length + 1);
+    const content = convertBlock(item, tokens)
+      .split('\n')
+      .map((line, i) => (i === 0 || !line ? line : indentation + line))
+      .join('\n');
+    items.push(`${marker} ${content}`.trimEnd());
+  }
+
+  return items.join('\n');
+}
+
+/**
+ * Convert a `<table>` element into a formatted table. The first row is used as header row.
+ */
+function convertTable(table: Element, tokens: PreferredTokens): string {
+  const rows = Array.from(table.querySelectorAll('tr')).filter((row) => row.closest('table') === table);
+  const cells = rows.map((row) => Array.from(row.children).filter((cell) => ['TD', 'TH'].includes(cell.tagName)));
+  if (!cells.some((row) => row.length)) return '';
+
+  const markdownTable = createTable(
+    cells.map((row) =>
+      row.map((cell) => cleanUpInline(convertInline(cell, tokens)).replace(/\\\n/g, '<br>').replace(/\n/g, ' '))
+    )
+  );
+  cells[0].forEach((cell, column) => {
+    const alignment = (cell.getAttribute('align') || (cell as HTMLElement).style?.textAlign || '').toLowerCase();
+    if (['left', 'center', 'right'].includes(alignment)) {
+      markdownTable.alignments[column] = alignment as MarkdownEditorTableAlignment;
+    }
+  });
+  return formatTable(markdownTable).join('\n');
+}
+
+/**
+ * Convert an inline node (and its children) into inline Markdown.
+ */
+function convertInline(node: Node, tokens: PreferredTokens): string {
+  if (node.nodeType === Node.TEXT_NODE) return escapeText((node.textContent || '').replace(/\s+/g, ' '));
+  if (!(node instanceof Element) || IGNORED_ELEMENTS.includes(node.tagName)) return '';
+
+  const convertChildren = () =>
+    Array.from(node.childNodes)
+      .map((child) => (isBlock(child) ? ` ${convertInline(child, tokens)} ` : convertInline(child, tokens)))
+      .join('');
+
+  switch (node.tagName) {
+    case 'BR':
+      return '\\\n';
+    case 'INPUT':
+      return '';
+    case 'IMG': {
+      const src = node.getAttribute('src');
+      return src ? `![${escapeText(node.getAttribute('alt') || '')}](${getUrl(src)}${getTitle(node)})` : '';
+    }
+    case 'A': {
+      const href = node.getAttribute('href');
+      const content = convertChildren();
+      if (!href || href.startsWith('javascript:') || !content.trim()) return content;
+      return wrap(content, '[', `](${getUrl(href)}${getTitle(node)})`);
+    }
+    case 'CODE':
+    case 'KBD':
+    case 'SAMP':
+    case 'TT':
+      return convertInlineCode(node.textContent || '');
+  }
+
+  const { isBold, isItalic, isStrikethrough } = getFormats(node);
+  const delimiter = isBold || isItalic ? getEmphasisDelimiter(node, tokens) : '';
+
+  let content = convertChildren();
+  if (isStrikethrough) content = wrap(content, '~~', '~~');
+  if (isItalic) content = wrap(content, delimiter, delimiter);
+  if (isBold) content = wrap(content, delimiter + delimiter, delimiter + delimiter);
+  return content;
+}
+
+/**
+ * Get the formats of an element, which are specified by its tag or its inline style.
+ */
+function getFormats(element: Element): { isBold: boolean; isItalic: boolean; isStrikethrough: boolean } {
+  const style = (element as HTMLElement).style;
+  const fontWeight = style?.fontWeight || '';
+  const isBold =
+    (['B', 'STRONG'].includes(element.tagName) && !['normal', '400'].includes(fontWeight)) ||
+    fontWeight === 'bold' ||
+    +fontWeight >= 600;
+  const isItalic = ['EM', 'I'].includes(element.tagName) || style?.fontStyle === 'italic';
+  const isStrikethrough =
+    ['DEL', 'S', 'STRIKE'].includes(element.tagName) || !!style?.textDecoration?.includes('line-through');
+  return { isBold, isItalic, isStrikethrough };
+}
+
+/**
+ * Get the character of the bold and italic delimiters of an element, `*` or `_` as preferred by the tokens.
+ * Underscores do not work inside of words like `foo_bar_baz`, and delimiters of the same character next to each
+ * other are merged like in `__Bold___It_`. Therefore, the other character is used in these cases.
+ */
+function getEmphasisDelimiter(element: Element, tokens: PreferredTokens): string {
+  const { isBold } = getFormats(element);
+  const preferred = (isBold ? tokens.bold : tokens.italic)[0];
+  const previous = getAdjacent(element, 'previous');
+  const next = getAdjacent(element, 'next');
+  if (isWordCharacter(previous) || isWordCharacter(next)) return '*';
+
+  // The delimiters of the previous element and of parent elements are determined first. A next element adapts,
+  // unless it requires `*` itself.
+  const adjacentDelimiters: string[] = [];
+  if (previous instanceof Element) adjacentDelimiters.push(getDelimiter(previous, tokens));
+  if (next instanceof Element && next.contains(element)) adjacentDelimiters.push(getDelimiter(next, tokens));
+  else if (next instanceof Element && isWordCharacter(getAdjacent(next, 'next'))) adjacentDelimiters.push('*');
+  if (!adjacentDelimiters.includes(preferred)) return preferred;
+  return preferred === '*' ? '_' : '*';
+}
+
+/**
+ * Get the first character of the delimiter of a formatted element, e.g. `~` for strikethrough.
+ */
+function getDelimiter(element: Element, tokens: PreferredTokens): string {
+  const { isBold, isItalic } = getFormats(element);
+  return isBold || isItalic ? getEmphasisDelimiter(element, tokens) : '~';
+}
+
+function isWordCharacter(adjacent: string | Element): boolean {
+  return typeof adjacent === 'string' && /[\p{L}\p{N}_]/u.test(adjacent);
+}
+
+/**
+ * Get what is next to a node within its block: the adjacent character of the text, a formatted element whose
+ * delimiter is adjacent, i.e. a sibling or a parent, or an empty string at the start or end of the block.
+ */
+function getAdjacent(node: Node, side: 'previous' | 'next'): string | Element {
+  const isFormatted = (n: Node): n is Element => n instanceof Element && Object.values(getFormats(n)).some(Boolean);
+  let current: Node = node;
+  for (;;) {
+    const sibling = side === 'previous' ? current.previousSibling : current.nextSibling;
+    if (sibling) {
+      if (isBlock(sibling)) return '';
+      if (isFormatted(sibling)) return sibling;
+      const text = (sibling.textContent || '').replace(/\s+/g, ' ');
+      if (text) return side === 'previous' ? text[text.length - 1] : text[0];
+      current = sibling;
+      continue;
+    }
+    const parent = current.parentNode;
+    if (!parent || isBlock(parent)) return '';
+    if (isFormatted(parent)) return parent;
+    current = parent;
+  }
+}
+
+/**
+ * Wrap content with the specified tokens, which are placed inside of the content's surrounding whitespace.
+ */
+function wrap(content: string, startToken: string, endToken: string): string {
+  const [, leadingWhitespace, text, trailingWhitespace] = content.match(/^(\s*)([\s\S]*?)(\s*)$/) as string[];
+  return text ? leadingWhitespace + startToken + text + endToken + trailingWhitespace : content;
+}
+
+/**
+ * Convert text into inline code with a sufficient number of backticks.
+ */
+function convertInlineCode(text: string): string {
+  if (!text) return '';
+  let ticks = '`';
+  while (text.includes(ticks)) ticks += '`';
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return ticks + padding + text + padding + ticks;
+}
+
+/**
+ * Get the Markdown url part of a link or an image, enclosed in angle brackets if necessary. Tabs and line breaks
+ * are removed like browsers do, because a url in angle brackets must not contain line breaks.
+ */
+function getUrl(url: string): string {
+  return formatUrl(url.trim().replace(/[\t\n\r]/g, ''));
+}
+
+/**
+ * Get the Markdown title part of a link or an image, e.g. ` "title"`.
+ */
+function getTitle(element: Element): string {
+  const title = element.getAttribute('title');
+  return title ? ` "${title.replace(/"/g, '\\"')}"` : '';
+}
+
+/**
+ * Escape characters of plain text which would otherwise be interpreted as inline Markdown.
+ * Underscores inside of words are not escaped, since they do not result in emphasis.
+ */
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]~]/g, (char, offset: number) =>
+    char === '_' && /[a-z0-9]/i.test(text[offset - 1] || '') && /[a-z0-9]/i.test(text[offset + 1] || '')
+      ? char
+      : '\\' + char
+  );
+}
+
+/**
+ * Trim inline Markdown, collapse multiple spaces and remove line breaks at the start and end.
+ */
+function cleanUpInline(content: string): string {
+  return content
+    .replace(/ {2,}/g, ' ')
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/^(\\\n)+|(\\\n|\\$)+$/g, '')
+    .trim();
+}
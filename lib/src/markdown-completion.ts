@@ -0,0 +1,164 @@
+import { MarkdownEditorHeading } from './markdown-editor-types';
+
+/**
+ * A completion offered in the autocompletion popup.
+ */
+export interface MarkdownEditorCompletion {
+  /**
+   * The Markdown which replaces the trigger character and the query, e.g. `[Installation](#installation)`.
+   */
+  text: string;
+
+  /**
+   * The text shown in the popup. Defaults to `text`.
+   */
+  displayText?: string;
+
+  /**
+   * Additional text shown right-aligned in the popup, e.g. a keyboard shortcut.
+   */
+  detail?: string;
+
+  /**
+   * A CSS class applied to the popup item.
+   */
+  className?: string;
+
+  /**
+   * A function which is called after `text` has been inserted, e.g. to execute an action.
+   */
+  execute?: () => void;
+}
+
+/**
+ * Information about the document passed to `MarkdownEditorCompletionProvider.getCompletions()`.
+ */
+export interface MarkdownEditorCompletionContext {
+  /**
+   * The content of the editor.
+   */
+  content: string;
+
+  /**
+   * The position of the trigger character.
+   */
+  from: { line: number; ch: number };
+
+  /**
+   * All headings of the outline as flat list in order of appearance.
+   */
+  headings: MarkdownEditorHeading[];
+}
+
+/**
+ * A provider of completions, which are shown after typing its trigger character at the start of a word.
+ * Completions may be provided synchronously or as promise, e.g. to fetch them from a server.
+ */
+export interface MarkdownEditorCompletionProvider {
+  /**
+   * The character which starts a completion, e.g. `@` for mentions.
+   */
+  trigger: string;
+
+  /**
+   * Specifies whether the query may contain spaces. If `false`, the popup closes when a space is typed.
+   */
+  allowSpaces?: boolean;
+
+  /**
+   * Get the completions for the query, i.e. the text between the trigger character and the cursor.
+   */
+  getCompletions(
+    query: string,
+    context: MarkdownEditorCompletionContext
+  ): MarkdownEditorCompletion[] | Promise<MarkdownEditorCompletion[]>;
+}
+
+/**
+ * The emoji offered by the built-in emoji provider with their GitHub shortcodes.
+ */
+const EMOJI: { [shortcode: string]: string } = {
+  '+1': '👍',
+  '-1': '👎',
+  '100': '💯',
+  angry: '😠',
+  arrow_right: '➡️',
+  bug: '🐛',
+  bulb: '💡',
+  calendar: '📅',
+  clap: '👏',
+  construction: '🚧',
+  cry: '😢',
+  eyes: '👀',
+  fire: '🔥',
+  grin: '😁',
+  heart: '❤️',
+  heavy_check_mark: '✔️',
+  hourglass: '⌛',
+  information_source: 'ℹ️',
+  joy: '😂',
+  laughing: '😆',
+  link: '🔗',
+  lock: '🔒',
+  memo: '📝',
+  no_entry: '⛔',
+  ok_hand: '👌',
+  pencil2: '✏️',
+  pray: '🙏',
+  question: '❓',
+  raised_hands: '🙌',
+  rocket: '🚀',
+  see_no_evil: '🙈',
+  slightly_smiling_face: '🙂',
+  smile: '😄',
+  smiley: '😃',
+  sparkles: '✨',
+  star: '⭐',
+  sunglasses: '😎',
+  tada: '🎉',
+  thinking: '🤔',
+  thumbsdown: '👎',
+  thumbsup: '👍',
+  warning: '⚠️',
+  wave: '👋',
+  white_check_mark: '✅',
+  wink: '😉',
+  wrench: '🔧',
+  x: '❌',
+  zap: '⚡',
+};
+
+/**
+ * The built-in provider for emoji, triggered by `:`. Inserts the emoji character for its shortcode, e.g. `:tada`.
+ */
+export const EMOJI_COMPLETION_PROVIDER: MarkdownEditorCompletionProvider = {
+  trigger: ':',
+  getCompletions: (query) => {
+    const lowerCaseQuery = query.toLowerCase();
+    const shortcodes = Object.keys(EMOJI).filter((shortcode) => shortcode.includes(lowerCaseQuery));
+    // Shortcodes starting with the query come first
+    const sorted = [
+      ...shortcodes.filter((shortcode) => shortcode.startsWith(lowerCaseQuery)),
+      ...shortcodes.filter((shortcode) => !shortcode.startsWith(lowerCaseQuery)),
+    ];
+    return sorted.map((shortcode) => ({ text: EMOJI[shortcode], displayText: `${EMOJI[shortcode]} :${shortcode}:` }));
+  },
+};
+
+/**
+ * The built-in provider for links to headings of the document, triggered by `[`.
+ * Inserts a link to the heading's anchor, e.g. `[Installation](#installation)`.
+ */
+export const HEADING_COMPLETION_PROVIDER: MarkdownEditorCompletionProvider = {
+  trigger: '[',
+  allowSpaces: true,
+  getCompletions: (query, context) => {
+    const lowerCaseQuery = query.toLowerCase();
+    return context.headings
+      .filter((h) => h.text.toLowerCase().includes(lowerCaseQuery) || h.slug.includes(lowerCaseQuery))
+      .map((heading) => ({
+        text: `[${heading.text.replace(/([[\]\\])/g, '\\$1')}](#${heading.slug})`,
+        displayText: `${'#'.repeat(heading.level)} ${heading.text}`,
+      }));
+  },
+};
@@ -0,0 +1,106 @@
+import { MarkdownEditorDraft } from './markdown-editor-types';
+
+/**
+ * A storage for drafts, which are saved automatically if `options.autosave` is enabled.
+ * The methods may work synchronously or return promises.
+ */
+export interface MarkdownEditorDraftStorage {
+  /**
+   * Get the draft stored under the specified key, or `undefined` if there is none.
+   */
+  get(key: string): MarkdownEditorDraft | undefined | Promise<MarkdownEditorDraft | undefined>;
+
+  /**
+   * Store the draft under the specified key, replacing a previous draft.
+   */
+  set(key: string, draft: MarkdownEditorDraft): void | Promise<void>;
+
+  /**
+   * Remove the draft stored under the specified key.
+   */
+  remove(key: string): void | Promise<void>;
+}
+
+/**
+ * Stores drafts as JSON in the browser's `localStorage`.
+ */
+export class LocalStorageDraftStorage implements MarkdownEditorDraftStorage {
+  public get(key: string): MarkdownEditorDraft | undefined {
+    const json = window.localStorage.getItem(key);
+    return json ? JSON.parse(json) : undefined;
+  }
+
+  public set(key: string, draft: MarkdownEditorDraft): void {
+    window.localStorage.setItem(key, JSON.stringify(draft));
+  }
+
+  public remove(key: string): void {
+    window.localStorage.removeItem(key);
+  }
+}
+
+/**
+ * Stores drafts in an object store `drafts` of the browser's IndexedDB, which has more capacity than `localStorage`.
+ */
+export class IndexedDbDraftStorage implements MarkdownEditorDraftStorage {
+  private database?: Promise<IDBDatabase>;
+
+  /**
+   * @param databaseName The name of the database. Default is `markdown-editor`.
+   */
+  constructor(private readonly databaseName = 'markdown-editor') {}
+
+  public get(key: string): Promise<MarkdownEditorDraft | undefined> {
+    return this.request('readonly', (store) => store.get(key));
+  }
+
+  public set(key: string, draft: MarkdownEditorDraft): Promise<void> {
+    return this.request('readwrite', (store) => store.put(draft, key)).then(() => undefined);
+  }
+
+  public remove(key: string): Promise<void> {
+    return this.request('readwrite', (store) => store.delete(key));
+  }
+
+  private request<T>(mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return this.openDatabase().then(
+      (database) =>
+        new Promise<T>((resolve, reject) => {
+          const request = createRequest(database.transaction('drafts', mode).objectStore('drafts'));
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        })
+    );
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore('drafts');
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+}
+
+/**
+ * Stores drafts in memory, e.g. as a stand-in for a persistent storage in tests.
+ */
+export class MemoryDraftStorage implements MarkdownEditorDraftStorage {
+  private readonly drafts: { [key: string]: MarkdownEditorDraft } = {};
+
+  public get(key: string): MarkdownEditorDraft | undefined {
+    return this.drafts[key];
+  }
+
+  public set(key: string, draft: MarkdownEditorDraft): void {
+    this.drafts[key] = draft;
+  }
+
+  public remove(key: string): void {
+    delete this.drafts[key];
+  }
+}
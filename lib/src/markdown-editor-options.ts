@@ -1,3 +1,11 @@
+import { MarkdownEditorCompletionProvider } from './markdown-completion';
+import { MarkdownEditorDraftStorage } from './markdown-draft-storage';
+import { MarkdownEditorExportFormat, MarkdownEditorFrontMatter } from './markdown-editor-types';
+import { DEFAULT_FRONT_MATTER_PARSER, MarkdownEditorFrontMatterParser } from './markdown-front-matter';
+import { MarkdownEditorLintRule } from './markdown-lint';
+import { MarkdownEditorIgnoreListStorage, MarkdownEditorSpellChecker } from './markdown-spell-check';
+import { MarkdownRenderOptions } from './markdown-renderer';
+
 /**
  * All options to configure `MarkdownEditor`.
  *
@@ -10,6 +18,63 @@ export interface MarkdownEditorOptionsComplete {
    */
   autofocus: boolean;
 
+  /**
+   * Options for the autocompletion popup, which is shown after typing the trigger character of a provider
+   * at the start of a word:
+   * - `enabled`: Specifies whether the autocompletion is enabled.
+   * - `emoji`: Specifies whether the built-in emoji provider (`:`) is applied.
+   * - `headings`: Specifies whether the built-in provider for links to headings of the document (`[`) is applied.
+   * - `providers`: Custom providers, e.g. for mentions (`@`) or issues (`#`). They take precedence over
+   *   built-in providers with the same trigger character.
+   */
+  autocompletion: {
+    enabled: boolean;
+    emoji: boolean;
+    headings: boolean;
+    providers: MarkdownEditorCompletionProvider[];
+  };
+
+  /**
+   * Specifies whether drafts of the content and the selections are saved automatically while editing, so that they
+   * can be recovered via `mde.restoreDraft()` after a crash. The draft is removed when `mde.markClean()` is called.
+   */
+  autosave: boolean;
+
+  /**
+   * The minimum interval (in milliseconds) between two automatic saves of a draft.
+   */
+  autosaveInterval: number;
+
+  /**
+   * The key under which drafts are stored. Should be unique per document.
+   */
+  autosaveKey: string;
+
+  /**
+   * The storage for drafts: the browser's `localStorage`, its `indexedDB` or a custom storage.
+   */
+  autosaveStorage: 'localStorage' | 'indexedDB' | MarkdownEditorDraftStorage;
+
+  /**
+   * The delay (in milliseconds) after the last change, after which the `contentChange` event is emitted.
+   */
+  contentChangeDelay: number;
+
+  /**
+   * Specifies whether pasted HTML, e.g. copied from a web page or a word processor, is converted into Markdown.
+   * - `always`: HTML is always converted
+   * - `never`: HTML is never converted, only its plain text is pasted
+   * - `unlessShift`: HTML is converted, unless pasted as plain text via _Shift-Ctrl-V_ (_Shift-Cmd-V_ on Mac)
+   */
+  convertPastedHtml: 'always' | 'never' | 'unlessShift';
+
+  /**
+   * Specifies whether pasted tabular data, which is separated by tabs (e.g. copied from a spreadsheet) or commas,
+   * is converted into a table with the first row as header row. The text must have at least two rows with the same
+   * number of at least two cells. Text pasted via _Shift-Ctrl-V_ is not converted.
+   */
+  convertPastedTables: boolean;
+
   /**
    * Specifies whether the editor is disabled.
    */
@@ -17,8 +82,24 @@ export interface MarkdownEditorOptionsComplete {
 
   /**
    * A function to generate the name of the file that is downloaded when `mde.downloadAsFile()` is called.
+   * Receives the format of the download, e.g. to choose the file extension.
    */
-  downloadFileNameGenerator: () => string;
+  downloadFileNameGenerator: (format: MarkdownEditorExportFormat) => string;
+
+  /**
+   * Options for the YAML front matter, i.e. the lines between a first line `---` and the next line `---` or `...`:
+   * - `enabled`: Specifies whether the front matter is highlighted as YAML and excluded from the word count,
+   *   the character count and the spell check.
+   * - `parser`: The parser used by `mde.getFrontMatter()` and `mde.setFrontMatter()`. The default parser supports
+   *   the subset of YAML commonly used in front matter.
+   * - `validate`: A schema validation hook, which returns the error messages for invalid data, if any.
+   *   Invalid data is rejected by `mde.setFrontMatter()` and `mde.updateFrontMatter()`.
+   */
+  frontMatter: {
+    enabled: boolean;
+    parser: MarkdownEditorFrontMatterParser;
+    validate: ((data: MarkdownEditorFrontMatter) => string[]) | undefined;
+  };
 
   /**
    * Specifies whether markup tokens like `-`, `[]`, etc. get `token` classes, to enable highlighting.
@@ -27,6 +108,24 @@ export interface MarkdownEditorOptionsComplete {
    */
   highlightTokens: boolean;
 
+  /**
+   * A function which uploads an image file, which is pasted or dropped into the editor, and resolves with its url.
+   * While the upload is pending, a placeholder is shown in place of the image link.
+   * If not specified, pasted or dropped images are not uploaded.
+   */
+  imageUploadHandler: ((file: File) => Promise<string>) | undefined;
+
+  /**
+   * The maximum size (in bytes) of an uploaded image file. Larger files are rejected. `0` allows any size.
+   */
+  imageUploadMaxSize: number;
+
+  /**
+   * The image file types which are allowed to be uploaded, as a comma-separated list of MIME types
+   * or file extensions like the HTML `accept` attribute, e.g. `image/png, .jpg` or `image/*`.
+   */
+  imageUploadTypes: string;
+
   /**
    * Specifies whether lineNumbers are shown on the left side of the editor.
    */
@@ -37,6 +136,26 @@ export interface MarkdownEditorOptionsComplete {
    */
   lineWrapping: boolean;
 
+  /**
+   * Options for linting the content:
+   * - `enabled`: Specifies whether the content is linted automatically after changes, whereby issues are shown
+   *   as gutter markers and underlines.
+   * - `rules`: The severity of built-in and custom rules by name, or `false` to disable a rule.
+   *   Rules which are not specified are enabled with severity `warning`.
+   * - `customRules`: Additional rules by name.
+   */
+  linting: {
+    enabled: boolean;
+    rules: { [rule: string]: boolean | 'error' | 'warning' };
+    customRules: { [rule: string]: MarkdownEditorLintRule };
+  };
+
+  /**
+   * Specifies whether pressing _Enter_ inside a list item continues the list in the new line.
+   * Pressing _Enter_ on an empty list item ends the list.
+   */
+  listContinuation: boolean;
+
   /**
    * The url to which `mde.openMarkdownGuide()` redirects.
    */
@@ -74,6 +193,33 @@ export interface MarkdownEditorOptionsComplete {
     table: string | { rows: number; columns: number };
   };
 
+  /**
+   * Specifies whether the preview pane is shown, which contains the rendered HTML of the content.
+   * The preview is updated while typing and its scroll position is synchronized with the editor.
+   */
+  preview: boolean;
+
+  /**
+   * The delay (in milliseconds) after the last change, after which the preview is updated.
+   */
+  previewDelay: number;
+
+  /**
+   * The position of the preview pane relative to the editor.
+   */
+  previewPosition: 'right' | 'bottom';
+
+  /**
+   * Options to configure the rendering of the preview, e.g. the sanitization or hooks for links, images and
+   * code blocks.
+   */
+  previewRenderOptions: MarkdownRenderOptions;
+
+  /**
+   * Specifies whether footnotes with numeric labels (`[^1]`) are renumbered in order of appearance after edits.
+   */
+  renumberFootnotes: boolean;
+
   /**
    * Specifies whether Markdown syntax highlight is enabled.
    * If true, the _CodeMirror_ mode [`gfm`](https://codemirror.net/mode/gfm/index.html)
@@ -82,7 +228,7 @@ export interface MarkdownEditorOptionsComplete {
   richTextMode: boolean;
 
   /**
-   * Keyboard shortcuts for built-in actions.
+   * Keyboard shortcuts for built-in actions and custom actions.
    *
    * @see Our [README section](https://github.com/mdefy/markdown-editor-core/#shortcuts) for more details.
    */
@@ -96,6 +242,43 @@ export interface MarkdownEditorOptionsComplete {
    */
   shortcutsEnabled: 'all' | 'customOnly' | 'none';
 
+  /**
+   * Options for the slash command menu, which is shown after typing `/` at the start of a line or after whitespace:
+   * - `enabled`: Specifies whether the slash command menu is enabled.
+   * - `commands`: The names of the built-in actions, custom actions and snippets offered in the menu, or `all`.
+   * - `snippets`: Templates which are inserted as is, by name.
+   */
+  slashCommands: { enabled: boolean; commands: 'all' | string[]; snippets: { [name: string]: string } };
+
+  /**
+   * Options for the spell check of prose in rich-text mode, which skips code, urls and link targets:
+   * - `enabled`: Specifies whether misspelled words are marked. Requires a `checker`.
+   * - `checker`: The spell checker, e.g. based on a Hunspell dictionary.
+   * - `ignoreListKey`: The key under which the words ignored via `mde.ignoreWord()` are stored.
+   *   Should be unique per user.
+   * - `ignoreListStorage`: The storage for ignored words: the browser's `localStorage` or a custom storage.
+   */
+  spellCheck: {
+    enabled: boolean;
+    checker: MarkdownEditorSpellChecker | undefined;
+    ignoreListKey: string;
+    ignoreListStorage: 'localStorage' | MarkdownEditorIgnoreListStorage;
+  };
+
+  /**
+   * Specifies whether the table editing mode is enabled, which applies if the cursor is inside a table:
+   * _Tab_ and _Shift-Tab_ move between cells, _Enter_ inserts a new row and the columns are re-padded after each edit.
+   */
+  tableEditing: boolean;
+
+  /**
+   * Options for the table of contents inserted via `mde.insertTableOfContents()`:
+   * - `autoUpdate`: Specifies whether the table of contents is updated automatically after changes (`onChange`),
+   *   after `mde.formatContent()` (`onFormat`) or only when inserting it again (`never`).
+   * - `minDepth`, `maxDepth`: The range of heading levels which are included.
+   */
+  tableOfContents: { autoUpdate: 'never' | 'onChange' | 'onFormat'; minDepth: number; maxDepth: number };
+
   /**
    * The width of a tab character (in number of "normal" characters, e.g. spaces).
    */
@@ -127,38 +310,152 @@ export type MarkdownEditorAction =
   | 'toggleUnorderedList'
   | 'toggleOrderedList'
   | 'toggleCheckList'
+  | 'toggleCheckListItemState'
+  | 'indentListItem'
+  | 'outdentListItem'
   | 'toggleQuote'
   | 'insertLink'
   | 'insertImageLink'
   | 'insertTable'
+  | 'insertTableRow'
+  | 'deleteTableRow'
+  | 'insertTableColumn'
+  | 'deleteTableColumn'
+  | 'moveTableColumnLeft'
+  | 'moveTableColumnRight'
+  | 'setTableColumnAlignment'
+  | 'convertSelectionToTable'
+  | 'promoteSection'
+  | 'demoteSection'
+  | 'moveSectionUp'
+  | 'moveSectionDown'
+  | 'selectSection'
+  | 'insertTableOfContents'
+  | 'convertLinkToReference'
+  | 'convertLinkToInline'
+  | 'convertAllLinksToReference'
+  | 'convertAllLinksToInline'
+  | 'cleanUpLinkDefinitions'
+  | 'insertFootnote'
+  | 'jumpToFootnote'
   | 'insertHorizontalRule'
   | 'toggleInlineCode'
   | 'insertCodeBlock'
   | 'openMarkdownGuide'
   | 'toggleRichTextMode'
+  | 'togglePreview'
+  | 'goToHeading'
+  | 'nextHeading'
+  | 'previousHeading'
   | 'downloadAsFile'
   | 'importFromFile'
-  | 'formatContent';
+  | 'formatContent'
+  | 'applyQuickFixes'
+  | 'openSearch'
+  | 'openReplace'
+  | 'findNext'
+  | 'findPrevious';
+
+/**
+ * All predefined action names.
+ *
+ * _Not intended to be used outside of this library. Only made public for access inside `MarkdownEditor`._
+ */
+export const BUILT_IN_ACTIONS: MarkdownEditorAction[] = [
+  'setHeadingLevel',
+  'increaseHeadingLevel',
+  'decreaseHeadingLevel',
+  'toggleBold',
+  'toggleItalic',
+  'toggleStrikethrough',
+  'toggleUnorderedList',
+  'toggleOrderedList',
+  'toggleCheckList',
+  'toggleCheckListItemState',
+  'indentListItem',
+  'outdentListItem',
+  'toggleQuote',
+  'insertLink',
+  'insertImageLink',
+  'insertTable',
+  'insertTableRow',
+  'deleteTableRow',
+  'insertTableColumn',
+  'deleteTableColumn',
+  'moveTableColumnLeft',
+  'moveTableColumnRight',
+  'setTableColumnAlignment',
+  'convertSelectionToTable',
+  'promoteSection',
+  'demoteSection',
+  'moveSectionUp',
+  'moveSectionDown',
+  'selectSection',
+  'insertTableOfContents',
+  'convertLinkToReference',
+  'convertLinkToInline',
+  'convertAllLinksToReference',
+  'convertAllLinksToInline',
+  'cleanUpLinkDefinitions',
+  'insertFootnote',
+  'jumpToFootnote',
+  'insertHorizontalRule',
+  'toggleInlineCode',
+  'insertCodeBlock',
+  'openMarkdownGuide',
+  'toggleRichTextMode',
+  'togglePreview',
+  'goToHeading',
+  'nextHeading',
+  'previousHeading',
+  'downloadAsFile',
+  'importFromFile',
+  'formatContent',
+  'applyQuickFixes',
+  'openSearch',
+  'openReplace',
+  'findNext',
+  'findPrevious',
+];
 
 /**
- * Keyboard shortcut definition for built-in action.
+ * Keyboard shortcut definition for built-in actions and custom actions registered via `mde.registerAction()`.
  */
-export type MarkdownEditorShortcuts = Partial<Record<Exclude<MarkdownEditorAction, 'setHeadingLevel'>, string>>;
+export type MarkdownEditorShortcuts = Partial<
+  Record<Exclude<MarkdownEditorAction, 'setHeadingLevel' | 'setTableColumnAlignment' | 'goToHeading'>, string>
+> & {
+  [customAction: string]: string | undefined;
+};
 
 /**
  * Default configuration for `MarkdownEditor`.
  */
 export const DEFAULT_OPTIONS: MarkdownEditorOptionsComplete = {
   autofocus: true,
+  autocompletion: { enabled: true, emoji: true, headings: true, providers: [] },
+  autosave: false,
+  autosaveInterval: 1000,
+  autosaveKey: 'markdown-editor-draft',
+  autosaveStorage: 'localStorage',
+  contentChangeDelay: 300,
+  convertPastedHtml: 'unlessShift',
+  convertPastedTables: true,
   disabled: false,
-  downloadFileNameGenerator: () => {
+  downloadFileNameGenerator: (format) => {
     const now = new Date();
     const shift = new Date(now.getTime() - now.getTimezoneOffset() * 60000);
-    return shift.toISOString().substr(0, 19).replace('T', '_').replace(/:|-/gi, '') + '.md';
+    const extension = { markdown: '.md', html: '.html', htmlDocument: '.html', text: '.txt' }[format] || '.md';
+    return shift.toISOString().substr(0, 19).replace('T', '_').replace(/:|-/gi, '') + extension;
   },
+  frontMatter: { enabled: true, parser: DEFAULT_FRONT_MATTER_PARSER, validate: undefined },
   highlightTokens: false,
+  imageUploadHandler: undefined,
+  imageUploadMaxSize: 10 * 1024 * 1024,
+  imageUploadTypes: 'image/png, image/jpeg, image/gif, image/webp',
   lineNumbers: false,
   lineWrapping: true,
+  linting: { enabled: false, rules: {}, customRules: {} },
+  listContinuation: true,
   markdownGuideUrl: 'https://www.markdownguide.org/basic-syntax/',
   multipleCursors: true,
   placeholder: '',
@@ -175,6 +472,11 @@ export const DEFAULT_OPTIONS: MarkdownEditorOptionsComplete = {
     imageLink: ['![', '](https://)'],
     table: { rows: 2, columns: 2 },
   },
+  preview: false,
+  previewDelay: 300,
+  previewPosition: 'right',
+  previewRenderOptions: {},
+  renumberFootnotes: true,
   richTextMode: true,
   shortcuts: {
     increaseHeadingLevel: 'Alt-H',
@@ -185,6 +487,9 @@ export const DEFAULT_OPTIONS: MarkdownEditorOptionsComplete = {
     toggleUnorderedList: 'Ctrl-L',
     toggleOrderedList: 'Shift-Ctrl-L',
     toggleCheckList: 'Shift-Ctrl-Alt-L',
+    toggleCheckListItemState: 'Shift-Ctrl-X',
+    indentListItem: 'Tab',
+    outdentListItem: 'Shift-Tab',
     toggleQuote: 'Ctrl-Q',
     insertLink: 'Ctrl-M',
     insertImageLink: 'Shift-Ctrl-M',
@@ -194,11 +499,26 @@ export const DEFAULT_OPTIONS: MarkdownEditorOptionsComplete = {
     insertCodeBlock: 'Shift-Ctrl-7',
     openMarkdownGuide: 'F1',
     toggleRichTextMode: 'Alt-R',
+    togglePreview: 'Alt-P',
+    nextHeading: 'Alt-PageDown',
+    previousHeading: 'Alt-PageUp',
     downloadAsFile: 'Shift-Ctrl-S',
     importFromFile: 'Ctrl-Alt-I',
     formatContent: 'Alt-F',
+    applyQuickFixes: 'Ctrl-.',
+    findNext: 'F3',
+    findPrevious: 'Shift-F3',
   },
   shortcutsEnabled: 'all',
+  slashCommands: { enabled: true, commands: 'all', snippets: {} },
+  spellCheck: {
+    enabled: false,
+    checker: undefined,
+    ignoreListKey: 'markdown-editor-ignored-words',
+    ignoreListStorage: 'localStorage',
+  },
+  tableEditing: true,
+  tableOfContents: { autoUpdate: 'never', minDepth: 1, maxDepth: 6 },
   tabSize: 4,
   themes: ['default'],
 };
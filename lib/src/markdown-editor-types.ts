@@ -0,0 +1,443 @@
+import { MarkdownEditorAction, MarkdownEditorOptions } from './markdown-editor-options';
+
+/**
+ * The formatting state at a cursor position, as returned by `mde.getActiveFormats()`.
+ */
+export interface MarkdownEditorFormatState {
+  /**
+   * Specifies whether the cursor is inside bold text.
+   */
+  bold: boolean;
+
+  /**
+   * Specifies whether the cursor is inside italic text.
+   */
+  italic: boolean;
+
+  /**
+   * Specifies whether the cursor is inside strikethrough text.
+   */
+  strikethrough: boolean;
+
+  /**
+   * Specifies whether the cursor is inside inline code.
+   */
+  inlineCode: boolean;
+
+  /**
+   * Specifies whether the cursor is inside a link (text or url).
+   */
+  link: boolean;
+
+  /**
+   * Specifies whether the cursor is inside an image link (alt text or url).
+   */
+  image: boolean;
+
+  /**
+   * The heading level of the cursor's line. 0, if the line is no heading.
+   */
+  headingLevel: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+  /**
+   * The type of list of the cursor's line as returned by `mde.getListTypeOfLine()`.
+   */
+  listType: 'unordered' | 'ordered' | 'check' | undefined;
+
+  /**
+   * The number of quote tokens (`>`) at the start of the cursor's line.
+   */
+  quoteDepth: number;
+
+  /**
+   * Specifies whether the cursor is inside a fenced code block.
+   */
+  codeBlock: boolean;
+}
+
+/**
+ * A check list item ("task") of the document.
+ */
+export interface MarkdownEditorTask {
+  /**
+   * The line number of the task.
+   */
+  line: number;
+
+  /**
+   * Specifies whether the task is checked (`[x]`).
+   */
+  checked: boolean;
+
+  /**
+   * The text of the task without the check list token.
+   */
+  text: string;
+
+  /**
+   * The level of indentation of the task.
+   */
+  indentationLevel: number;
+}
+
+/**
+ * The progress of all check list items of the document, as returned by `mde.getTaskProgress()`.
+ */
+export interface MarkdownEditorTaskProgress {
+  /**
+   * The number of checked tasks.
+   */
+  done: number;
+
+  /**
+   * The total number of tasks.
+   */
+  total: number;
+
+  /**
+   * All tasks of the document in order of appearance.
+   */
+  tasks: MarkdownEditorTask[];
+}
+
+/**
+ * A heading of the document and its section, as part of the tree returned by `mde.getOutline()`.
+ */
+export interface MarkdownEditorHeading {
+  /**
+   * The level of the heading (number of `#` tokens, or 1 and 2 for setext headings underlined with `=` and `-`).
+   */
+  level: 1 | 2 | 3 | 4 | 5 | 6;
+
+  /**
+   * The plain text of the heading without markup.
+   */
+  text: string;
+
+  /**
+   * The GitHub-style anchor slug of the heading, which equals its `id` in `mde.renderHtml()`.
+   */
+  slug: string;
+
+  /**
+   * The first line of the heading and thereby its section.
+   */
+  from: number;
+
+  /**
+   * The last line of the section, i.e. the line before the next heading of the same or a higher level,
+   * or the last line of the document.
+   */
+  to: number;
+
+  /**
+   * The headings of the next lower levels inside of the section.
+   */
+  children: MarkdownEditorHeading[];
+}
+
+/**
+ * A link of the document, as returned by `mde.getLinks()`.
+ */
+export interface MarkdownEditorLink {
+  /**
+   * The form of the link: `[text](url)` (inline), `[text][id]`, `[text][]` or `[text]` with a definition
+   * `[id]: url` (reference), or `<url>` and bare urls (autolink).
+   */
+  kind: 'inline' | 'reference' | 'autolink';
+
+  /**
+   * The Markdown source of the link text.
+   */
+  text: string;
+
+  /**
+   * The target of the link. For reference links, the url of the definition.
+   */
+  url: string;
+
+  /**
+   * The title of the link, if specified.
+   */
+  title?: string;
+
+  /**
+   * The label of the definition, only for reference links.
+   */
+  label?: string;
+
+  /**
+   * The start position of the link.
+   */
+  from: { line: number; ch: number };
+
+  /**
+   * The end position of the link.
+   */
+  to: { line: number; ch: number };
+}
+
+/**
+ * A footnote reference without definition or a footnote definition without reference,
+ * as returned by `mde.getFootnoteWarnings()`.
+ */
+export interface MarkdownEditorFootnoteWarning {
+  /**
+   * The kind of warning: a reference without definition or a definition without reference.
+   */
+  kind: 'orphanedReference' | 'orphanedDefinition';
+
+  /**
+   * The label of the footnote, e.g. `1` for `[^1]`.
+   */
+  label: string;
+
+  /**
+   * A description of the warning.
+   */
+  message: string;
+
+  /**
+   * The start position of the reference or the label of the definition.
+   */
+  from: { line: number; ch: number };
+
+  /**
+   * The end position of the reference or the label of the definition.
+   */
+  to: { line: number; ch: number };
+}
+
+/**
+ * An issue found by a lint rule, as returned by `mde.getLintResults()`.
+ */
+export interface MarkdownEditorLintResult {
+  /**
+   * The name of the rule, e.g. `heading-increment`.
+   */
+  rule: string;
+
+  /**
+   * The severity of the rule as specified in `options.linting.rules`.
+   */
+  severity: 'error' | 'warning';
+
+  /**
+   * A description of the issue.
+   */
+  message: string;
+
+  /**
+   * The start position of the issue.
+   */
+  from: { line: number; ch: number };
+
+  /**
+   * The end position of the issue.
+   */
+  to: { line: number; ch: number };
+
+  /**
+   * The edit which resolves the issue, if it can be fixed automatically via `mde.fixLintResults()`.
+   */
+  fix?: { from: { line: number; ch: number }; to: { line: number; ch: number }; text: string };
+}
+
+/**
+ * A misspelled word, as returned by `mde.getSpellingSuggestions()`.
+ */
+export interface MarkdownEditorMisspelling {
+  /**
+   * The misspelled word.
+   */
+  word: string;
+
+  /**
+   * The start position of the word.
+   */
+  from: { line: number; ch: number };
+
+  /**
+   * The end position of the word.
+   */
+  to: { line: number; ch: number };
+
+  /**
+   * The suggestions of the spell checker, sorted by relevance.
+   */
+  suggestions: string[];
+}
+
+/**
+ * Options of `mde.find()`.
+ */
+export interface MarkdownEditorSearchOptions {
+  /**
+   * Specifies whether the query is a regular expression, e.g. `(\w+)@example\.com`. Default is `false`.
+   */
+  regex?: boolean;
+
+  /**
+   * Specifies whether upper and lower case must match. Default is `false`.
+   */
+  caseSensitive?: boolean;
+
+  /**
+   * Specifies whether only whole words are matched, i.e. matches which are not preceded or followed by
+   * a letter or digit of any script or an underscore, e.g. `café` does not match `caf`. Default is `false`.
+   */
+  wholeWord?: boolean;
+
+  /**
+   * Specifies whether only the text selected at the time of the search is searched. Without selected text,
+   * the whole content is searched. Default is `false`.
+   */
+  inSelection?: boolean;
+}
+
+/**
+ * A match of the search, as returned by `mde.find()`.
+ */
+export interface MarkdownEditorSearchMatch {
+  /**
+   * The start position of the match.
+   */
+  from: { line: number; ch: number };
+
+  /**
+   * The end position of the match.
+   */
+  to: { line: number; ch: number };
+
+  /**
+   * The matched text.
+   */
+  text: string;
+}
+
+/**
+ * The data of the YAML front matter, as returned by `mde.getFrontMatter()`.
+ */
+export interface MarkdownEditorFrontMatter {
+  [key: string]: unknown;
+}
+
+/**
+ * The alignment of a table column: `:---` (left), `:---:` (center), `---:` (right) or `---` (none).
+ */
+export type MarkdownEditorTableAlignment = 'left' | 'center' | 'right' | 'none';
+
+/**
+ * The format of exported content, as used by `mde.getContentAs()` and `mde.downloadAsFile()`:
+ * - `markdown`: the content as is
+ * - `html`: an HTML fragment as returned by `mde.renderHtml()`
+ * - `htmlDocument`: a self-contained HTML document with embedded styles, titled by the first heading
+ * - `text`: plain text without any Markdown syntax
+ */
+export type MarkdownEditorExportFormat = 'markdown' | 'html' | 'htmlDocument' | 'text';
+
+/**
+ * A draft of the editor content, which is saved automatically if `options.autosave` is enabled.
+ */
+export interface MarkdownEditorDraft {
+  /**
+   * The content of the editor.
+   */
+  content: string;
+
+  /**
+   * The selections of the editor. Without selected text, anchor and head are equal to the cursor position.
+   */
+  selections: { anchor: { line: number; ch: number }; head: { line: number; ch: number } }[];
+
+  /**
+   * The time at which the draft has been saved, in milliseconds since the Unix epoch.
+   */
+  timestamp: number;
+}
+
+/**
+ * A function executing a custom action, which is registered via `mde.registerAction()`.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type MarkdownEditorActionHandler = (...args: any[]) => void;
+
+/**
+ * All events emitted by `MarkdownEditor` with the signature of their listeners.
+ */
+export interface MarkdownEditorEventMap {
+  /**
+   * Emitted whenever the result of `mde.getActiveFormats()` changes.
+   */
+  formatStateChange: (formatStates: MarkdownEditorFormatState[]) => void;
+
+  /**
+   * Emitted when the content has changed, delayed by `options.contentChangeDelay` after the last change.
+   */
+  contentChange: (content: string) => void;
+
+  /**
+   * Emitted when the result of `mde.getOutline()` has changed, delayed by `options.contentChangeDelay`
+   * after the last change.
+   */
+  outlineChange: (outline: MarkdownEditorHeading[]) => void;
+
+  /**
+   * Emitted after a built-in or custom action has been executed, e.g. via shortcut, by calling `mde.toggleBold()`
+   * or by calling `mde.executeAction()`. Actions which are executed as part of another action do not emit this event.
+   */
+  actionExecuted: (action: MarkdownEditorAction | string, args: unknown[]) => void;
+
+  /**
+   * Emitted after the content has been linted automatically, if `options.linting.enabled` is `true`.
+   * Linting is delayed by `options.contentChangeDelay` after the last change.
+   */
+  lint: (results: MarkdownEditorLintResult[]) => void;
+
+  /**
+   * Emitted by the actions `openSearch` and `openReplace` to let the host show its search UI, with the
+   * selected text as suggested query if it is on a single line.
+   */
+  searchOpen: (mode: 'search' | 'replace', query: string) => void;
+
+  /**
+   * Emitted after options have been changed via `mde.setOptions()`.
+   */
+  optionsChange: (options: MarkdownEditorOptions) => void;
+
+  /**
+   * Emitted after content has been imported via `mde.importFromFile()`.
+   */
+  import: (content: string, file: File) => void;
+
+  /**
+   * Emitted after the content has been exported via `mde.downloadAsFile()`.
+   */
+  export: (content: string, fileName: string, format: MarkdownEditorExportFormat) => void;
+
+  /**
+   * Emitted when an image file cannot be uploaded, because it is rejected due to `options.imageUploadMaxSize`
+   * or `options.imageUploadTypes`, or because the promise of `options.imageUploadHandler` is rejected.
+   */
+  imageUploadError: (error: unknown, file: File) => void;
+
+  /**
+   * Emitted when the editor receives focus.
+   */
+  focus: () => void;
+
+  /**
+   * Emitted when the editor loses focus.
+   */
+  blur: () => void;
+
+  /**
+   * Emitted whenever the return value of `mde.isDirty()` changes.
+   */
+  dirtyChange: (dirty: boolean) => void;
+}
+
+/**
+ * Name of an event emitted by `MarkdownEditor`.
+ */
+export type MarkdownEditorEvent = keyof MarkdownEditorEventMap;
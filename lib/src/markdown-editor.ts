@@ -1,6 +1,8 @@
 import CodeMirror, { EditorConfiguration } from 'codemirror';
 import 'codemirror/mode/gfm/gfm.js';
+import 'codemirror/mode/yaml-frontmatter/yaml-frontmatter.js';
 import 'codemirror/addon/display/placeholder.js';
+import 'codemirror/addon/hint/show-hint.js';
 import _ from 'lodash-es';
 import prettier from 'prettier/standalone';
 import parserMarkdown from 'prettier/parser-markdown';
@@ -10,27 +12,174 @@ import {
   FromTextareaOptionsComplete,
   MdeFromTextareaOptions,
   MarkdownEditorShortcuts,
+  MarkdownEditorAction,
+  BUILT_IN_ACTIONS,
   DEFAULT_OPTIONS,
   DEFAULT_FROM_TEXTAREA_OPTIONS,
 } from './markdown-editor-options';
+import {
+  MarkdownEditorActionHandler,
+  MarkdownEditorEvent,
+  MarkdownEditorDraft,
+  MarkdownEditorEventMap,
+  MarkdownEditorExportFormat,
+  MarkdownEditorFootnoteWarning,
+  MarkdownEditorFrontMatter,
+  MarkdownEditorFormatState,
+  MarkdownEditorHeading,
+  MarkdownEditorLink,
+  MarkdownEditorLintResult,
+  MarkdownEditorMisspelling,
+  MarkdownEditorSearchMatch,
+  MarkdownEditorSearchOptions,
+  MarkdownEditorTableAlignment,
+  MarkdownEditorTaskProgress,
+} from './markdown-editor-types';
+import { containsFormattedHtml, htmlToMarkdown } from './html-to-markdown';
+import {
+  EMOJI_COMPLETION_PROVIDER,
+  HEADING_COMPLETION_PROVIDER,
+  MarkdownEditorCompletion,
+  MarkdownEditorCompletionProvider,
+} from './markdown-completion';
+import { IndexedDbDraftStorage, LocalStorageDraftStorage, MarkdownEditorDraftStorage } from './markdown-draft-storage';
+import { findFootnotes, MarkdownFootnoteNode, renumberFootnotes } from './markdown-footnotes';
+import { findFrontMatter, updateFrontMatterEntries } from './markdown-front-matter';
+import { BUILT_IN_LINT_RULES, lintMarkdown, MarkdownEditorLintRule } from './markdown-lint';
+import { createSearchPattern, expandReplacement, findSearchMatches } from './markdown-search';
+import { findWords, LocalStorageIgnoreListStorage, MarkdownEditorIgnoreListStorage } from './markdown-spell-check';
+import {
+  cleanUpDefinitions,
+  convertLinksToInline,
+  convertLinksToReferences,
+  findLinks,
+  formatUrl,
+  MarkdownEdit,
+  MarkdownLink,
+} from './markdown-links';
+import {
+  createSlug,
+  getPlainText,
+  MarkdownNode,
+  markdownToPlainText,
+  MarkdownRenderOptions,
+  parseMarkdown,
+  renderHtmlDocument,
+  renderMarkdown,
+  renderMarkdownBlocks,
+  sanitizeHtml,
+} from './markdown-renderer';
+import {
+  createTable,
+  detectDelimiter,
+  formatTable,
+  getTableCellContentRange,
+  getTableCellIndexAt,
+  getTableCellSpans,
+  isTableDelimiterRow,
+  isTableRow,
+  MarkdownTable,
+  MarkdownTableCell,
+  parseDelimitedText,
+  parseTable,
+  splitTableRow,
+  tableToDelimitedText,
+} from './markdown-table';
+
+type EventListeners = { [E in MarkdownEditorEvent]?: MarkdownEditorEventMap[E][] };
 
 class MarkdownEditorBase {
   protected static readonly ORDERED_LIST_PATTERN = /^(\t| )*(\d)+\.(\t| )+/;
   protected static readonly UNORDERED_LIST_PATTERN = /^(\t| )*(\*|-)(\t| )+/;
   protected static readonly CHECK_LIST_PATTERN = /^(\t| )*(\*|-) \[(X|x| )\](\t| )+/;
+  protected static readonly CHECK_LIST_BOX_PATTERN = /\[(X|x| )\]/;
   protected static readonly INDENTATION_OFFSET_PATTERN = /(?<=(^(\s)+))(\S|$)/;
+  protected static readonly CODE_BLOCK_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
   protected static readonly BOLD_TOKENS = ['**', '__'];
   protected static readonly ITALIC_TOKENS = ['*', '_'];
+  protected static readonly LINT_GUTTER = 'markdown-editor-lint-gutter';
+  protected static readonly SPELL_CHECK_SKIPPED_TOKEN_TYPES = [
+    'code',
+    'comment',
+    'url',
+    'link',
+    'tag',
+    'attribute',
+    'emoji',
+  ];
+  protected static readonly SLASH_COMMAND_ALIASES: { [action: string]: string[] } = {
+    toggleUnorderedList: ['ul', 'list'],
+    toggleOrderedList: ['ol'],
+    toggleCheckList: ['task', 'todo'],
+    toggleQuote: ['quote'],
+    insertLink: ['link'],
+    insertImageLink: ['image', 'img'],
+    insertTable: ['table'],
+    insertTableOfContents: ['toc'],
+    insertFootnote: ['footnote'],
+    insertHorizontalRule: ['hr'],
+    toggleInlineCode: ['inline'],
+    insertCodeBlock: ['code'],
+    openSearch: ['find', 'search'],
+    openReplace: ['replace'],
+  };
 
   public readonly cm: CodeMirror.Editor;
   protected options: MarkdownEditorOptionsComplete;
+  protected eventListeners: EventListeners = {};
+  protected customActions: { [name: string]: { handler: MarkdownEditorActionHandler; defaultShortcut?: string } } = {};
+  private formatStates: MarkdownEditorFormatState[] = [];
+  private dirty = false;
+  private contentChangeTimeout?: ReturnType<typeof setTimeout>;
+  private outline?: MarkdownEditorHeading[];
+  private tableOfContentsTimeout?: ReturnType<typeof setTimeout>;
+  private footnotesTimeout?: ReturnType<typeof setTimeout>;
+  private preview?: { container: HTMLElement; element: HTMLElement; blocks: string[] };
+  private previewUpdateTimeout?: ReturnType<typeof setTimeout>;
+  private scrollSyncTarget?: 'editor' | 'preview';
+  private autosaveTimeout?: ReturnType<typeof setTimeout>;
+  private draftStorage?: { type: string; storage: MarkdownEditorDraftStorage };
+  private recoverableDraft: Promise<MarkdownEditorDraft | undefined> = Promise.resolve(undefined);
+  protected saveDraftBeforeUnload = () => {
+    if (this.autosaveTimeout) this.saveDraft();
+  };
+  private lintTimeout?: ReturnType<typeof setTimeout>;
+  private lintMarks: CodeMirror.TextMarker[] = [];
+  private spellCheckTimeout?: ReturnType<typeof setTimeout>;
+  private misspellingMarks: CodeMirror.TextMarker[] = [];
+  private ignoredWords: string[] = [];
+  private ignoredWordsLoaded?: Promise<void>;
+  private search?: {
+    pattern: RegExp;
+    regex: boolean;
+    scopes: CodeMirror.TextMarker<CodeMirror.MarkerRange>[];
+    marks: CodeMirror.TextMarker[];
+  };
+  private searchTimeout?: ReturnType<typeof setTimeout>;
 
   constructor(codemirror: CodeMirror.Editor, options: MarkdownEditorOptionsComplete) {
     this.cm = codemirror;
     this.options = options;
     this.applyCodemirrorOptions();
     this.applyEditorKeyMappings();
+    this.applyPreviewOptions();
     this.removeLinkClassFromImageTexts();
+    this.observeFormatStates();
+    this.observeEditorEvents();
+    this.emitActionEvents();
+    this.addBehaviorKeyMap();
+    this.toggleCheckListItemOnClick();
+    this.formatTablesOnChange();
+    this.uploadPastedAndDroppedImages();
+    this.convertPastedContent();
+    this.synchronizePreview();
+    this.autosaveDrafts();
+    this.updateTableOfContentsOnChange();
+    this.maintainFootnotes();
+    this.showCompletionsOnTrigger();
+    this.lintOnChange();
+    this.checkSpellingOnChange();
+    this.updateSearchMarksOnChange();
   }
 
   /***** Basic Editor API *****/
@@ -351,6 +500,121 @@ class MarkdownEditorBase {
     });
   }
 
+  /**
+   * Toggle the state of each selected check list item between checked (`[x]`) and unchecked (`[ ]`).
+   */
+  public toggleCheckListItemState() {
+    this.replaceTokenAtLineStart((oldLineContent) => {
+      if (oldLineContent.search(MarkdownEditorBase.CHECK_LIST_PATTERN) === -1) return oldLineContent;
+      return oldLineContent.replace(MarkdownEditorBase.CHECK_LIST_BOX_PATTERN, (box) =>
+        box === '[ ]' ? '[x]' : '[ ]'
+      );
+    });
+  }
+
+  /**
+   * Increase the nesting level of each selected list item by one level of indentation.
+   * Nested list items belonging to a selected list item are moved along with it.
+   * Ordered lists are renumbered at both the previous and the new level.
+   */
+  public indentListItem() {
+    this.shiftListItems(1);
+  }
+
+  /**
+   * Decrease the nesting level of each selected list item by one level of indentation.
+   * Nested list items belonging to a selected list item are moved along with it.
+   * Ordered lists are renumbered at both the previous and the new level.
+   */
+  public outdentListItem() {
+    this.shiftListItems(-1);
+  }
+
+  /**
+   * Shift the indentation of each selected list item and its nested lines by one level in the specified direction.
+   * @param direction `1` to indent, `-1` to outdent
+   */
+  protected shiftListItems(direction: 1 | -1) {
+    const codeBlockLines = this.getCodeBlockLines();
+    const tabSize = this.cm.getOption('tabSize') || this.options.tabSize;
+    const getIndentation = (lineContent: string) => lineContent.match(/^(\t| )*/)?.[0] || '';
+    const getIndentationWidth = (indentation: string) => indentation.replace(/\t/g, ' '.repeat(tabSize)).length;
+
+    // Collect the selected list items and the lines nested below them
+    const lineNumbers = new Set<number>();
+    for (const selection of this.cm.listSelections()) {
+      for (let lineNumber = selection.from().line; lineNumber <= selection.to().line; lineNumber++) {
+        if (lineNumbers.has(lineNumber) || codeBlockLines[lineNumber] || !this.getListTypeOfLine(lineNumber)) continue;
+        const indentation = getIndentation(this.cm.getLine(lineNumber));
+        if (direction === -1 && !indentation) continue;
+
+        lineNumbers.add(lineNumber);
+        const indentationWidth = getIndentationWidth(indentation);
+        let nextLineNumber = lineNumber + 1;
+        let nextLine = this.cm.getLine(nextLineNumber);
+        while (nextLine?.trim() && getIndentationWidth(getIndentation(nextLine)) > indentationWidth) {
+          lineNumbers.add(nextLineNumber);
+          nextLine = this.cm.getLine(++nextLineNumber);
+        }
+      }
+    }
+
+    this.cm.operation(() => {
+      for (const lineNumber of Array.from(lineNumbers).sort((a, b) => a - b)) {
+        const indentation = getIndentation(this.cm.getLine(lineNumber));
+        const oldIndentationLevel = this.getIndentationLevel(indentation);
+        if (direction === 1) {
+          const indentUnit = this.cm.getOption('indentWithTabs') ? '\t' : ' '.repeat(tabSize);
+          this.cm.replaceRange(indentUnit, { line: lineNumber, ch: 0 }, undefined, '+shiftListItems');
+        } else {
+          const removedLength = indentation[0] === '\t' ? 1 : Math.min(tabSize, indentation.search(/\t|$/));
+          this.cm.replaceRange(
+            '',
+            { line: lineNumber, ch: 0 },
+            { line: lineNumber, ch: removedLength },
+            '+shiftListItems'
+          );
+        }
+        const newIndentationLevel = this.getIndentationLevel(getIndentation(this.cm.getLine(lineNumber)));
+
+        // Renumber the ordered list at the new level
+        if (this.getListTypeOfLine(lineNumber) === 'ordered') {
+          const listNumber = this.getPreviousListNumberOfLevel(lineNumber, newIndentationLevel) + 1;
+          const lineContent = this.cm.getLine(lineNumber);
+          const firstNonWS = getIndentation(lineContent).length;
+          this.cm.replaceRange(
+            `${listNumber}`,
+            { line: lineNumber, ch: firstNonWS },
+            { line: lineNumber, ch: lineContent.indexOf('.') },
+            '+shiftListItems'
+          );
+          this.processNextLinesOfOrderedList(lineNumber, listNumber, newIndentationLevel);
+        }
+
+        // Renumber the ordered list at the old level: subsequent items follow the previous item of this level
+        // (when indenting) or start a new sublist below the outdented item (when outdenting)
+        const previousListNumber =
+          direction === 1 ? this.getPreviousListNumberOfLevel(lineNumber, oldIndentationLevel) : 0;
+        this.processNextLinesOfOrderedList(lineNumber, previousListNumber, oldIndentationLevel);
+      }
+    });
+
+    this.cm.focus();
+  }
+
+  /**
+   * Returns whether any selection contains a list item outside of a code block.
+   */
+  protected hasListItemInSelections(): boolean {
+    const codeBlockLines = this.getCodeBlockLines();
+    return this.cm.listSelections().some((selection) => {
+      for (let lineNumber = selection.from().line; lineNumber <= selection.to().line; lineNumber++) {
+        if (!codeBlockLines[lineNumber] && this.getListTypeOfLine(lineNumber)) return true;
+      }
+      return false;
+    });
+  }
+
   /**
    * Replace each selected line with the result of the callback function `replaceFn`.
    * Additionally adjusts the selection boundaries to the originally selected boundaries.
@@ -415,8 +679,9 @@ class MarkdownEditorBase {
 
   /**
    * Wrap each selection with code block tokens, which are inserted in separate lines.
+   * @param language the language of the code block, e.g. `ts`
    */
-  public insertCodeBlock() {
+  public insertCodeBlock(language?: string) {
     const newSelections: CodeMirror.Range[] = [];
     const selections = _.cloneDeep(this.cm.listSelections());
     for (let i = 0; i < selections.length; i++) {
@@ -426,7 +691,7 @@ class MarkdownEditorBase {
 
       // Wrap selection with code block tokens
       let currentShift = 3;
-      let startToken = preferredToken + '\n';
+      let startToken = preferredToken + (language || '') + '\n';
       if (newSelection.from().ch > 0) {
         startToken = '\n' + startToken;
         currentShift++;
@@ -613,243 +878,1964 @@ class MarkdownEditorBase {
     window.open(this.options.markdownGuideUrl, '_blank');
   }
 
-  /***** Extended Editor API *****/
+  /**
+   * Insert a line break at each selection. If a selection is inside a list item, the new line continues
+   * the list with the marker of the current item and the same indentation. Ordered lists get the next
+   * list number and the subsequent items are renumbered. If the list item is empty, the list is ended instead,
+   * i.e. the list marker is removed.
+   * @returns `CodeMirror.Pass` if no selection is inside a list item, to let _CodeMirror_ handle the key
+   */
+  protected newlineAndContinueList(): void | typeof CodeMirror.Pass {
+    const codeBlockLines = this.getCodeBlockLines();
+    const isListLine = (lineNumber: number) => !codeBlockLines[lineNumber] && !!this.getListTypeOfLine(lineNumber);
+    const selections = this.cm.listSelections();
+    if (!selections.some((selection) => isListLine(selection.from().line))) return CodeMirror.Pass;
+
+    this.cm.operation(() => {
+      const cursors: CodeMirror.TextMarker[] = [];
+      // Process from bottom to top, so that changes do not affect the positions of the remaining selections
+      for (let i = selections.length - 1; i >= 0; i--) {
+        const from = selections[i].from();
+        const to = selections[i].to();
+        const lineContent = this.cm.getLine(from.line);
+        const listType = isListLine(from.line) ? this.getListTypeOfLine(from.line) : undefined;
+        const marker =
+          listType &&
+          lineContent.match(
+            listType === 'check'
+              ? MarkdownEditorBase.CHECK_LIST_PATTERN
+              : listType === 'unordered'
+              ? MarkdownEditorBase.UNORDERED_LIST_PATTERN
+              : MarkdownEditorBase.ORDERED_LIST_PATTERN
+          )?.[0];
+
+        if (!listType || !marker || from.ch < marker.length) {
+          this.cm.replaceRange('\n', from, to, '+input');
+          cursors.unshift(this.cm.setBookmark({ line: from.line + 1, ch: 0 }));
+          continue;
+        }
+
+        const firstNonWS = lineContent.search(MarkdownEditorBase.INDENTATION_OFFSET_PATTERN);
+        const indentation = lineContent.substring(0, firstNonWS);
+        const indentationLevel = this.getIndentationLevel(indentation);
+
+        // End the list on empty list item
+        if (!lineContent.substring(marker.length).trim() && from.line === to.line) {
+          this.cm.replaceRange('', { line: from.line, ch: 0 }, { line: from.line, ch: lineContent.length }, '+input');
+          if (listType === 'ordered') this.processNextLinesOfOrderedList(from.line, 0, indentationLevel);
+          cursors.unshift(this.cm.setBookmark({ line: from.line, ch: 0 }));
+          continue;
+        }
+
+        let newMarker = marker;
+        if (listType === 'check') {
+          newMarker = marker.replace(/\[(X|x| )\]/, '[ ]');
+        } else if (listType === 'ordered') {
+          const listNumber = +marker.substring(indentation.length, marker.indexOf('.'));
+          newMarker = indentation + (listNumber + 1) + marker.substring(marker.indexOf('.'));
+        }
+        this.cm.replaceRange('\n' + newMarker, from, to, '+input');
+        if (listType === 'ordered') {
+          const listNumber = +newMarker.substring(indentation.length, newMarker.indexOf('.'));
+          this.processNextLinesOfOrderedList(from.line + 1, listNumber, indentationLevel);
+        }
+        cursors.unshift(this.cm.setBookmark({ line: from.line + 1, ch: newMarker.length }));
+      }
+
+      const newSelections = cursors.map((cursor) => {
+        const pos = (cursor.find() as unknown) as CodeMirror.Position;
+        cursor.clear();
+        return { anchor: pos, head: pos } as CodeMirror.Range;
+      });
+      this.cm.setSelections(newSelections, undefined, { origin: '+input' });
+      this.cm.scrollIntoView(null);
+    });
+  }
 
   /**
-   * Undo one edit. Shortcut for `Codemirror.undo()`.
+   * Insert an empty row below the current row of each table containing a cursor.
+   * If the cursor is in the header row, the new row becomes the first body row.
    */
-  public undo() {
-    this.cm.undo();
+  public insertTableRow() {
+    this.editTables((table, cells) => {
+      const rows = _.uniq(cells.map((cell) => cell.row)).sort((a, b) => b - a);
+      for (const row of rows)
+        table.rows.splice(
+          row + 1,
+          0,
+          table.alignments.map(() => '')
+        );
+      return cells.map((cell) => ({
+        row: cell.row + 1 + rows.filter((row) => row < cell.row).length,
+        column: cell.column,
+      }));
+    });
   }
 
   /**
-   * Redo one edit. Shortcut for `Codemirror.redo()`.
+   * Delete the current row of each table containing a cursor. The header row cannot be deleted.
    */
-  public redo() {
-    this.cm.redo();
+  public deleteTableRow() {
+    this.editTables((table, cells) => {
+      const rows = _.uniq(cells.map((cell) => cell.row).filter((row) => row > 0)).sort((a, b) => b - a);
+      for (const row of rows) table.rows.splice(row, 1);
+      return cells.map((cell) =>
+        cell.row === 0
+          ? cell
+          : {
+              row: Math.min(cell.row - rows.filter((row) => row < cell.row).length, table.rows.length - 1),
+              column: cell.column,
+            }
+      );
+    });
   }
 
   /**
-   * Toggle the editor's rich-text mode. If off, there is no markdown styling inside the editor.
+   * Insert an empty column to the right of the current column of each table containing a cursor.
    */
-  public toggleRichTextMode() {
-    const currentMode = this.cm.getOption('mode');
-    if (currentMode === 'gfm' || currentMode.name === 'gfm') {
-      this.cm.setOption('mode', '');
-    } else {
-      this.cm.setOption('mode', this.getGfmMode());
-    }
+  public insertTableColumn() {
+    this.editTables((table, cells) => {
+      const columns = _.uniq(cells.map((cell) => cell.column)).sort((a, b) => b - a);
+      for (const column of columns) {
+        table.rows.forEach((row) => row.splice(column + 1, 0, ''));
+        table.alignments.splice(column + 1, 0, 'none');
+      }
+      return cells.map((cell) => ({
+        row: cell.row,
+        column: cell.column + 1 + columns.filter((column) => column < cell.column).length,
+      }));
+    });
   }
 
   /**
-   * Start a file download containing the editor content as plain text.
-   * The name of the file is either `fileName` if specified, or the default `downloadFileName`
-   * specified in the Markdown Editor options.
-   * @param fileName The name of the downloaded file. Preferred over `options.downloadFileName`.
+   * Delete the current column of each table containing a cursor. The last remaining column cannot be deleted.
    */
-  public downloadAsFile(fileName?: string) {
-    const data = new Blob([this.getContent()], { type: 'text/plain' });
-    const url = window.URL.createObjectURL(data);
-    const a = document.createElement('a');
-    a.setAttribute('href', url);
-    a.setAttribute('download', fileName || this.options.downloadFileNameGenerator());
-    a.click();
+  public deleteTableColumn() {
+    this.editTables((table, cells) => {
+      const columns = _.uniq(cells.map((cell) => cell.column)).sort((a, b) => b - a);
+      if (columns.length >= table.alignments.length) return cells;
+      for (const column of columns) {
+        table.rows.forEach((row) => row.splice(column, 1));
+        table.alignments.splice(column, 1);
+      }
+      return cells.map((cell) => ({
+        row: cell.row,
+        column: Math.min(
+          cell.column - columns.filter((column) => column < cell.column).length,
+          table.alignments.length - 1
+        ),
+      }));
+    });
   }
 
   /**
-   * Import content from a file. Reads the content of `file` if specified, or opens the browser's
-   * file selection dialog and reads the content of the user-selected file.
-   * @param file The file to import the content from.
+   * Swap the current column of each table containing a cursor with its left neighbor.
    */
-  public importFromFile(file?: File) {
-    const readFile = (file: File) => {
-      const reader = new FileReader();
-      reader.onload = (event) => this.setContent(((event.target as FileReader).result || '') as string);
-      reader.readAsText(file);
-    };
+  public moveTableColumnLeft() {
+    this.moveTableColumns(-1);
+  }
 
-    if (file) {
-      readFile(file);
-    } else {
-      const input = document.createElement('input');
-      input.setAttribute('type', 'file');
-      input.setAttribute('accept', '.txt, .text, .markdown, .mdown, .mkdn, .md, .mkd, .mdwn, .mdtxt, .mdtext');
-      input.onchange = (event) => {
-        const files = (event?.target as HTMLInputElement).files;
-        if (files) {
-          readFile(files[0]);
-        }
-      };
-      input.click();
-    }
+  /**
+   * Swap the current column of each table containing a cursor with its right neighbor.
+   */
+  public moveTableColumnRight() {
+    this.moveTableColumns(1);
   }
 
   /**
-   * Formats the content using Prettier's Markdown parser.
+   * Move the current column of each table containing a cursor by one column in the specified direction.
+   * @param direction `-1` to move left, `1` to move right
    */
-  public formatContent() {
-    this.setContent(
-      prettier.format(this.getContent(), {
-        parser: 'markdown',
-        plugins: [parserMarkdown],
-      })
-    );
+  protected moveTableColumns(direction: 1 | -1) {
+    this.editTables((table, cells) => {
+      const columns = _.uniq(cells.map((cell) => cell.column)).sort((a, b) => direction * (b - a));
+      const movedColumns: number[] = [];
+      for (const column of columns) {
+        const target = column + direction;
+        if (target < 0 || target >= table.alignments.length || movedColumns.includes(target)) continue;
+        for (const cells of [...table.rows, table.alignments]) {
+          [cells[column], cells[target]] = [cells[target], cells[column]];
+        }
+        movedColumns.push(column);
+      }
+      return cells.map((cell) => ({
+        ...cell,
+        column: movedColumns.includes(cell.column) ? cell.column + direction : cell.column,
+      }));
+    });
   }
 
-  /***** Developer API *****/
+  /**
+   * Set the alignment of the current column of each table containing a cursor.
+   * @param alignment the alignment
+   */
+  public setTableColumnAlignment(alignment: MarkdownEditorTableAlignment) {
+    this.editTables((table, cells) => {
+      cells.forEach((cell) => (table.alignments[cell.column] = alignment));
+      return cells;
+    });
+  }
 
   /**
-   * Get the editor's content with the specified line break format.
-   * @param lineSeparator The line break format. Default is `\n`.
+   * Convert the lines of each selection, which contain delimiter-separated text like CSV or TSV,
+   * into a table with the first line as header row.
+   * @param delimiter The delimiter of the cells. If not specified, tabs are used if the text contains any,
+   * otherwise commas.
    */
-  public getContent(lineSeparator = '\n'): string {
-    return this.cm.getValue(lineSeparator);
+  public convertSelectionToTable(delimiter?: string) {
+    this.cm.operation(() => {
+      const selections = this.cm.listSelections().sort((a, b) => b.from().line - a.from().line);
+      let lastConvertedLine = Infinity;
+      for (const selection of selections) {
+        const from = selection.from().line;
+        let to = selection.to().line;
+        if (to > from && selection.to().ch === 0) to--;
+        if (to >= lastConvertedLine) continue; // lines have already been converted by another selection
+
+        const text = this.cm.getRange({ line: from, ch: 0 }, { line: to, ch: this.cm.getLine(to).length });
+        const rows = parseDelimitedText(text, delimiter || (text.includes('\t') ? '\t' : ',')).filter((row) =>
+          row.some((cell) => cell.trim())
+        );
+        if (!rows.length) continue;
+
+        this.cm.replaceRange(
+          formatTable(createTable(rows)).join('\n'),
+          { line: from, ch: 0 },
+          { line: to, ch: this.cm.getLine(to).length },
+          '+convertSelectionToTable'
+        );
+        lastConvertedLine = from;
+      }
+    });
+    this.cm.focus();
   }
 
   /**
-   * Get the editor's content with the lines as array.
+   * Move each cursor inside a table to the next or previous cell and select the cell's content.
+   * Moving forward from the last cell inserts a new row.
+   * @param direction `1` to move to the next cell, `-1` to move to the previous cell
+   * @returns `CodeMirror.Pass` if no cursor is inside a table, to let _CodeMirror_ handle the key
    */
-  public getContentPerLine(): string[] {
-    return this.cm.getValue().split('\n');
+  protected moveToTableCell(direction: 1 | -1): void | typeof CodeMirror.Pass {
+    const edited = this.editTables((table, cells) =>
+      cells.map((cell) => {
+        const columnCount = table.alignments.length;
+        const index = Math.max(cell.row * columnCount + cell.column + direction, 0);
+        if (index >= table.rows.length * columnCount) table.rows.push(table.alignments.map(() => ''));
+        return { row: Math.floor(index / columnCount), column: index % columnCount };
+      })
+    );
+    return edited ? undefined : CodeMirror.Pass;
   }
 
   /**
-   * Set the editor's content with the specified line break format.
-   * @param content The content.
-   * @param lineSeparator The line break format. Default is `\n`.
+   * Insert a new row below the current row of each table containing a cursor and move the cursor
+   * to the first cell of the new row. If there is only a single cursor, which is located in an empty last row,
+   * the row is cleared instead to end the table.
+   * @returns `CodeMirror.Pass` if no cursor is inside a table, to let _CodeMirror_ handle the key
    */
-  public setContent(content: string, lineSeparator = '\n') {
-    if (lineSeparator !== '\n') content = content.replace(RegExp(lineSeparator, 'g'), '\n');
-    this.cm.setValue(content);
+  protected newlineInTable(): void | typeof CodeMirror.Pass {
+    const selections = this.cm.listSelections();
+    const head = selections[0].head;
+    const tableRange = this.getTableRange(head.line);
+    const lineContent = this.cm.getLine(head.line);
+    if (
+      selections.length === 1 &&
+      tableRange &&
+      head.line === tableRange.to &&
+      head.line > tableRange.from + 1 &&
+      splitTableRow(lineContent).every((cell) => !cell)
+    ) {
+      this.cm.replaceRange('', { line: head.line, ch: 0 }, { line: head.line, ch: lineContent.length }, '+input');
+      return;
+    }
+
+    const edited = this.editTables((table, cells) => {
+      const rows = _.uniq(cells.map((cell) => cell.row)).sort((a, b) => b - a);
+      for (const row of rows)
+        table.rows.splice(
+          row + 1,
+          0,
+          table.alignments.map(() => '')
+        );
+      return cells.map((cell) => ({ row: cell.row + 1 + rows.filter((row) => row < cell.row).length, column: 0 }));
+    });
+    return edited ? undefined : CodeMirror.Pass;
   }
 
   /**
-   * Get the editor's content with the lines as array.
+   * Get the range of lines of the GFM table that contains the specified line.
+   * @param lineNumber the line number
+   * @param codeBlockLines the result of `getCodeBlockLines()`, if already determined
+   * @returns the first and last line of the table, or `undefined` if the line is not part of a table
    */
-  public setContentPerLine(content: string[]) {
-    this.cm.setValue(content.join('\n'));
+  protected getTableRange(
+    lineNumber: number,
+    codeBlockLines = this.getCodeBlockLines()
+  ): { from: number; to: number } | undefined {
+    const isRow = (l: number) => !codeBlockLines[l] && isTableRow(this.cm.getLine(l));
+    if (!isRow(lineNumber)) return undefined;
+
+    let from = lineNumber;
+    while (from > this.cm.firstLine() && isRow(from - 1)) from--;
+    let to = lineNumber;
+    while (to < this.cm.lastLine() && isRow(to + 1)) to++;
+
+    // A table starts with a header row followed by a delimiter row with the same number of cells
+    const headerRow = this.cm.getLine(from);
+    const delimiterRow = this.cm.getLine(from + 1);
+    if (
+      to === from ||
+      !isTableDelimiterRow(delimiterRow) ||
+      splitTableRow(headerRow).length !== splitTableRow(delimiterRow).length
+    ) {
+      return undefined;
+    }
+    return { from, to };
   }
 
   /**
-   * Focus the editor. Shortcut for `Codemirror.focus()`.
+   * Edit each table which contains the head of a selection (or one of the specified lines) via the
+   * callback function `editFn` and replace the table with its formatted result. The selections inside
+   * an edited table are set to the cells returned by `editFn`, all other selections are kept.
+   *
+   * A returned cell with `offset` results in a cursor at the offset relative to the cell content's start,
+   * otherwise the cell content is selected.
+   * @param editFn callback function which modifies the table and returns the new cells of its cursors
+   * @param lineNumbers lines which determine the edited tables instead of the selections
+   * @param origin the origin of the changes
+   * @returns whether any table has been edited
    */
-  public focus() {
+  protected editTables(
+    editFn: (table: MarkdownTable, cells: MarkdownTableCell[]) => MarkdownTableCell[],
+    lineNumbers?: number[],
+    origin = '+editTable'
+  ): boolean {
+    const codeBlockLines = this.getCodeBlockLines();
+    const selections = this.cm.listSelections();
+    const tableRanges: { from: number; to: number }[] = [];
+    for (const lineNumber of lineNumbers || selections.map((selection) => selection.head.line)) {
+      const tableRange = this.getTableRange(lineNumber, codeBlockLines);
+      if (tableRange && !tableRanges.some((range) => range.from === tableRange.from)) tableRanges.push(tableRange);
+    }
+    if (!tableRanges.length) return false;
+
+    this.cm.operation(() => {
+      const newSelections: { anchor: CodeMirror.TextMarker; head: CodeMirror.TextMarker }[] = [];
+      const isInTable = (pos: CodeMirror.Position) =>
+        tableRanges.some((range) => pos.line >= range.from && pos.line <= range.to);
+      for (const selection of selections.filter((selection) => !isInTable(selection.head))) {
+        newSelections.push({
+          anchor: this.cm.setBookmark(selection.anchor),
+          head: this.cm.setBookmark(selection.head),
+        });
+      }
+
+      // Process from bottom to top, so that changes do not affect the line numbers of the remaining tables
+      for (const { from, to } of tableRanges.sort((a, b) => b.from - a.from)) {
+        const lines = this.cm.getRange({ line: from, ch: 0 }, { line: to, ch: this.cm.getLine(to).length }).split('\n');
+        const indentation = lines[0].match(/^\s*/)?.[0] || '';
+
+        const cells = selections
+          .filter((selection) => selection.head.line >= from && selection.head.line <= to)
+          .map((selection) => {
+            const line = lines[selection.head.line - from];
+            const column = getTableCellIndexAt(line, selection.head.ch);
+            const offset = selection.head.ch - getTableCellContentRange(line, column).start;
+            const row = Math.max(selection.head.line - from - 1, 0);
+            return { row, column, offset, delimiter: selection.head.line === from + 1 };
+          });
+
+        const table = parseTable(lines);
+        const newCells = editFn(table, cells);
+        const newLines = formatTable(table).map((line) => indentation + line);
+        if (newLines.join('\n') !== lines.join('\n')) {
+          this.cm.replaceRange(
+            newLines.join('\n'),
+            { line: from, ch: 0 },
+            { line: to, ch: lines[lines.length - 1].length },
+            origin
+          );
+        }
+
+        for (const cell of newCells) {
+          const lineOffset = cell.delimiter ? 1 : cell.row === 0 ? 0 : cell.row + 1;
+          const line = newLines[lineOffset];
+          const content = getTableCellContentRange(line, cell.column);
+          let anchor: CodeMirror.Position = { line: from + lineOffset, ch: content.start };
+          let head: CodeMirror.Position = { line: from + lineOffset, ch: content.end };
+          if (cell.offset !== undefined) {
+            const span = getTableCellSpans(line)[cell.column];
+            const ch = Math.min(Math.max(content.start + cell.offset, span.start), span.end);
+            anchor = head = { line: from + lineOffset, ch };
+          }
+          newSelections.push({ anchor: this.cm.setBookmark(anchor), head: this.cm.setBookmark(head) });
+        }
+      }
+
+      this.cm.setSelections(
+        newSelections.map((selection) => {
+          const anchor = (selection.anchor.find() as unknown) as CodeMirror.Position;
+          const head = (selection.head.find() as unknown) as CodeMirror.Position;
+          selection.anchor.clear();
+          selection.head.clear();
+          return { anchor, head } as CodeMirror.Range;
+        }),
+        undefined,
+        { origin }
+      );
+    });
+
     this.cm.focus();
+    return true;
   }
 
   /**
-   * Get the number of characters in the document.
+   * Promote the heading of the section containing the cursor together with all headings inside of its section,
+   * i.e. decrease their levels by one. Nothing happens if the heading has level 1.
    */
-  public getCharacterCount() {
-    // eslint-disable-next-line no-control-regex
-    return this.cm.getValue().replace(RegExp('\n', 'gi'), '').length;
+  public promoteSection() {
+    this.shiftSectionLevels(-1);
   }
 
   /**
-   * Get the number of words in the document.
+   * Demote the heading of the section containing the cursor together with all headings inside of its section,
+   * i.e. increase their levels by one. Nothing happens if any of the headings has level 6.
    */
-  public getWordCount() {
-    const content = this.cm.getValue();
-    let s = content.replace(/(^\s*)|(\s*$)/gi, ''); // Trim left and right
-    s = s.replace(/\t/gi, ' '); // Replace tabs by single whitespace
-    s = s.replace(/\n/gi, ' '); // Replace line breaks by single whitespace
-    s = s.replace(/[ ]{2,}/gi, ' '); // Reduce multiple whitespaces to a single one
-    let split = s.split(' '); // Split string by whitespaces
-    split = split.filter((x) => !/^\W+$/.test(x)); // Filter out non-alphanumeric words
-    return s === '' ? 0 : split.length;
+  public demoteSection() {
+    this.shiftSectionLevels(1);
   }
 
   /**
-   * Get the current cursor position as a `{line, ch}` object.
-   * Shortcut for `Codemirror.getCursor()`.
+   * Swap the section containing the cursor with the previous section of the same level and the same parent.
    */
-  public getCursorPos() {
-    return this.cm.getCursor();
+  public moveSectionUp() {
+    this.moveSection(-1);
   }
 
   /**
-   * Returns whether the document has been modified.
-   * Inverted shortcut for `Codemirror.isClean()`
+   * Swap the section containing the cursor with the next section of the same level and the same parent.
    */
-  public isDirty() {
-    return !this.cm.isClean();
+  public moveSectionDown() {
+    this.moveSection(1);
   }
 
   /**
-   * Check if text at current cursor position has specified token type
-   * like returned by `CodeMirror.getTokenTypeAt()`.
-   * @param token
+   * Select the heading of the section containing the cursor and everything under it,
+   * except for blank lines at the end of the section.
    */
-  public hasTokenAtCursorPos(token: string): boolean {
-    return this.cm.getTokenTypeAt(this.getCursorPos())?.split(' ').includes(token) || false;
+  public selectSection() {
+    const section = this.getSectionAt(this.cm.getCursor().line);
+    if (!section) return;
+    let to = section.to;
+    while (to > section.from && !this.cm.getLine(to).trim()) to--;
+    this.cm.setSelection({ line: section.from, ch: 0 }, { line: to, ch: this.cm.getLine(to).length });
+    this.cm.focus();
   }
 
   /**
-   * Get the type of list in the specified line. Return undefined, if the line contains no list token.
-   * @param lineNumber
+   * Get the innermost section containing the specified line, i.e. the section of the last heading at or above it.
+   * @param lineNumber the line number
+   * @returns the heading of the section and all headings inside of the section (in order of appearance),
+   * or `undefined` if there is no heading at or above the line
    */
-  public getListTypeOfLine(lineNumber: number): 'unordered' | 'ordered' | 'check' | undefined {
-    const line = this.cm.getLine(lineNumber);
-    if (MarkdownEditorBase.CHECK_LIST_PATTERN.test(line)) return 'check';
-    if (MarkdownEditorBase.UNORDERED_LIST_PATTERN.test(line)) return 'unordered';
-    if (MarkdownEditorBase.ORDERED_LIST_PATTERN.test(line)) return 'ordered';
-    return undefined;
+  protected getSectionAt(
+    lineNumber: number,
+    headings = this.getHeadings()
+  ): (MarkdownEditorHeading & { headings: MarkdownEditorHeading[] }) | undefined {
+    const section = headings.filter((heading) => heading.from <= lineNumber).pop();
+    if (!section) return undefined;
+    return { ...section, headings: headings.filter((h) => h.from >= section.from && h.from <= section.to) };
   }
 
   /**
-   * Get the action shortcuts effectively applied to the editor.
-   *
-   * This might be a mix of custom shortcuts
-   * and default shortcuts as specified in `DEFAULT_OPTIONS`.
+   * Change the levels of all headings of the section containing the cursor by the specified difference.
+   * Setext headings are converted to ATX headings if their new level is greater than 2.
    */
-  public getShortcuts(): MarkdownEditorShortcuts {
-    return this.options.shortcuts;
+  protected shiftSectionLevels(difference: 1 | -1) {
+    const section = this.getSectionAt(this.cm.getCursor().line);
+    if (!section) return;
+    const levels = section.headings.map((heading) => heading.level + difference);
+    if (levels.some((level) => level < 1 || level > 6)) return;
+
+    // Bottom-up, so that converted setext headings do not shift the lines of the remaining headings
+    this.cm.operation(() => {
+      for (let i = section.headings.length - 1; i >= 0; i--) {
+        const from = section.headings[i].from;
+        const level = levels[i];
+        const lineContent = this.cm.getLine(from);
+        const atxToken = lineContent.match(/^( {0,3})(#{1,6})([\t ]|$)/);
+        if (atxToken) {
+          const start = atxToken[1].length;
+          const end = start + atxToken[2].length;
+          this.cm.replaceRange('#'.repeat(level), { line: from, ch: start }, { line: from, ch: end }, 'shiftSection');
+          continue;
+        }
+
+        // Setext heading, whose text may span multiple lines until the underline
+        let underline = from + 1;
+        while (underline < this.cm.lineCount() && !/^ {0,3}(=+|-+)[\t ]*$/.test(this.cm.getLine(underline)))
+          underline++;
+        const underlineContent = this.cm.getLine(underline) || '';
+        if (level <= 2) {
+          const newUnderline = (level === 1 ? '=' : '-').repeat(underlineContent.trim().length);
+          this.cm.replaceRange(
+            newUnderline,
+            { line: underline, ch: 0 },
+            { line: underline, ch: underlineContent.length },
+            'shiftSection'
+          );
+        } else {
+          const text = this.getContentPerLine()
+            .slice(from, underline)
+            .map((line) => line.trim())
+            .join(' ');
+          this.cm.replaceRange(
+            '#'.repeat(level) + ' ' + text,
+            { line: from, ch: 0 },
+            { line: underline, ch: underlineContent.length },
+            'shiftSection'
+          );
+        }
+      }
+    });
+    this.cm.focus();
   }
 
   /**
-   * Add the specified keyboard shortcut to the specified action function.
-   *
-   * **Note:** This does **not** replace an existing shortcut to the specified action,
-   * but only **adds** it. In case of an already existing shortcut, the result will be
-   * two distinct shortcuts to the same function. However, you can use `removeShortcut()`
-   * to remove the old one.
-   * @param hotkeys the hotkeys string as required by Codemirror
-   * @param action the action function
-   * @see https://codemirror.net/doc/manual.html#keymaps
+   * Swap the section containing the cursor with its previous or next sibling section. Blank lines at the end of the
+   * sections stay in place, so that the sections remain separated and the end of the document is unchanged.
+   * The cursor keeps its position relative to the moved section.
    */
-  public addShortcut(hotkeys: string, action: () => void) {
-    const extraKeys = (this.cm.getOption('extraKeys') || {}) as CodeMirror.KeyMap;
-    let shortcut: string;
-    if (isMac()) {
-      shortcut = hotkeys.replace('Ctrl', 'Cmd');
-    } else {
-      shortcut = hotkeys.replace('Cmd', 'Ctrl');
-    }
-    extraKeys[shortcut] = action;
-
-    this.cm.setOption('extraKeys', extraKeys);
+  protected moveSection(direction: 1 | -1) {
+    const cursor = this.cm.getCursor();
+    const headings = this.getHeadings();
+    const section = this.getSectionAt(cursor.line, headings);
+    if (!section) return;
+    const sibling =
+      direction === -1
+        ? headings.filter((h) => h.from < section.from && h.level <= section.level).pop()
+        : headings.find((h) => h.from === section.to + 1);
+    if (!sibling || sibling.level !== section.level) return;
+
+    const [first, second] = direction === -1 ? [sibling, section] : [section, sibling];
+    const lines = this.getContentPerLine();
+    const splitBlankLines = (from: number, to: number) => {
+      let contentEnd = to + 1;
+      while (contentEnd > from + 1 && !lines[contentEnd - 1].trim()) contentEnd--;
+      return { content: lines.slice(from, contentEnd), blankLines: lines.slice(contentEnd, to + 1) };
+    };
+    const firstLines = splitBlankLines(first.from, first.to);
+    const secondLines = splitBlankLines(second.from, second.to);
+    const newLines = [
+      ...secondLines.content,
+      ...firstLines.blankLines,
+      ...firstLines.content,
+      ...secondLines.blankLines,
+    ];
+
+    const newSectionFrom =
+      direction === -1 ? first.from : first.from + secondLines.content.length + firstLines.blankLines.length;
+    this.cm.operation(() => {
+      this.cm.replaceRange(
+        newLines.join('\n'),
+        { line: first.from, ch: 0 },
+        { line: second.to, ch: lines[second.to].length },
+        'moveSection'
+      );
+      this.cm.setCursor({ line: newSectionFrom + cursor.line - section.from, ch: cursor.ch });
+    });
+    this.cm.focus();
   }
 
   /**
-   * Remove the specified keyboard shortcut.
-   *
-   * @param hotkeys the hotkeys string as required by Codemirror
-   * @see https://codemirror.net/doc/manual.html#keymaps
+   * Insert a table of contents with links to the headings of the document below the cursor's line.
+   * The table of contents is enclosed by the markers `<!-- toc -->` and `<!-- tocstop -->`, which are used to update
+   * it. If the document already contains a table of contents, it is updated instead.
    */
-  public removeShortcut(hotkeys: string) {
-    const extraKeys = (this.cm.getOption('extraKeys') || {}) as CodeMirror.KeyMap;
-    let shortcut: string;
-    if (isMac()) {
-      shortcut = hotkeys.replace('Ctrl', 'Cmd');
-    } else {
-      shortcut = hotkeys.replace('Cmd', 'Ctrl');
+  public insertTableOfContents() {
+    if (this.getTableOfContentsRange()) {
+      this.updateTableOfContents();
+      return;
     }
-    delete extraKeys[shortcut];
 
-    this.cm.setOption('extraKeys', extraKeys);
+    const line = this.cm.getCursor().line;
+    const lineContent = this.cm.getLine(line);
+    const nextLineContent = this.cm.getLine(line + 1);
+    let tableOfContents = this.createTableOfContents().join('\n');
+    if (lineContent.trim()) tableOfContents = '\n\n' + tableOfContents;
+    if (nextLineContent?.trim()) tableOfContents += '\n';
+    this.cm.replaceRange(tableOfContents, { line, ch: lineContent.length }, undefined, 'insertTableOfContents');
+    this.cm.focus();
   }
 
-  /***** Markdown Editor Options *****/
+  /**
+   * Replace the table of contents between the markers `<!-- toc -->` and `<!-- tocstop -->` with an up-to-date one.
+   */
+  protected updateTableOfContents() {
+    const range = this.getTableOfContentsRange();
+    if (!range) return;
+    const tableOfContents = this.createTableOfContents().join('\n');
+    const lastLineLength = this.cm.getLine(range.to).length;
+    if (this.cm.getRange({ line: range.from, ch: 0 }, { line: range.to, ch: lastLineLength }) === tableOfContents)
+      return;
+    this.cm.replaceRange(
+      tableOfContents,
+      { line: range.from, ch: 0 },
+      { line: range.to, ch: lastLineLength },
+      'updateTableOfContents'
+    );
+  }
+
+  /**
+   * Find the lines of the table of contents markers `<!-- toc -->` and `<!-- tocstop -->` outside of code blocks.
+   * @returns the lines of the markers, or `undefined` if there is no table of contents
+   */
+  protected getTableOfContentsRange(): { from: number; to: number } | undefined {
+    const codeBlockLines = this.getCodeBlockLines();
+    const lines = this.getContentPerLine();
+    const from = lines.findIndex((line, i) => !codeBlockLines[i] && /^<!--\s*toc\s*-->\s*$/i.test(line));
+    if (from === -1) return undefined;
+    const to = lines.findIndex((line, i) => i > from && !codeBlockLines[i] && /^<!--\s*tocstop\s*-->\s*$/i.test(line));
+    return to === -1 ? undefined : { from, to };
+  }
+
+  /**
+   * Create the lines of a table of contents including its markers. It consists of a nested list of links to the
+   * headings within the depth specified by `options.tableOfContents`, which uses `preferredTokens.unorderedList`.
+   */
+  protected createTableOfContents(): string[] {
+    const { minDepth, maxDepth } = this.options.tableOfContents;
+    const headings = this.getHeadings().filter((heading) => heading.level >= minDepth && heading.level <= maxDepth);
+    const topLevel = Math.min(...headings.map((heading) => heading.level));
+    const tabSize = this.cm.getOption('tabSize') || this.options.tabSize;
+    const indentUnit = this.cm.getOption('indentWithTabs') ? '\t' : ' '.repeat(tabSize);
+    const token = this.options.preferredTokens.unorderedList;
+
+    const items = headings.map((heading) => {
+      const text = heading.text.replace(/([[\]\\])/g, '\\$1');
+      return `${indentUnit.repeat(heading.level - topLevel)}${token} [${text}](#${heading.slug})`;
+    });
+    return ['<!-- toc -->', '', ...items, ...(items.length ? [''] : []), '<!-- tocstop -->'];
+  }
+
+  /**
+   * Convert the inline link `[text](url)` at the cursor position into a reference link `[text][id]`.
+   * A definition with the same url and title is reused, otherwise a new definition is added at the end of the document.
+   */
+  public convertLinkToReference() {
+    this.convertLinks('inline', this.getLinkAtCursor());
+  }
+
+  /**
+   * Convert the reference link `[text][id]` at the cursor position into an inline link `[text](url)`.
+   * The definition is removed, if it is not used anymore.
+   */
+  public convertLinkToInline() {
+    this.convertLinks('reference', this.getLinkAtCursor());
+  }
+
+  /**
+   * Convert all inline links of the document into reference links, whose definitions are collected at the end of the
+   * document. Links with the same url and title share a definition.
+   */
+  public convertAllLinksToReference() {
+    this.convertLinks('inline');
+  }
+
+  /**
+   * Convert all reference links of the document into inline links and remove the definitions which are
+   * not used anymore.
+   */
+  public convertAllLinksToInline() {
+    this.convertLinks('reference');
+  }
+
+  /**
+   * Remove unused link reference definitions and merge definitions with equal url and title,
+   * whereby the references to merged definitions are changed accordingly.
+   */
+  public cleanUpLinkDefinitions() {
+    this.applyEdits(cleanUpDefinitions(this.getContent()), 'cleanUpLinkDefinitions');
+    this.cm.focus();
+  }
+
+  /**
+   * Convert the specified links or all links of the document from one kind into the other.
+   * @param kind the kind of the links to convert
+   * @param link the link to convert. If not specified, all links are converted.
+   */
+  protected convertLinks(kind: 'inline' | 'reference', link?: MarkdownLink | null) {
+    if (link === null) return;
+    const content = this.getContent();
+    const links = link ? [link] : findLinks(content).links;
+    const edits = kind === 'inline' ? convertLinksToReferences(content, links) : convertLinksToInline(content, links);
+    this.applyEdits(edits, kind === 'inline' ? 'convertLinkToReference' : 'convertLinkToInline');
+    this.cm.focus();
+  }
+
+  /**
+   * Get the link which contains the cursor position.
+   * @returns the link, or `null` if there is no link at the cursor position
+   */
+  protected getLinkAtCursor(): MarkdownLink | null {
+    const index = this.cm.indexFromPos(this.cm.getCursor());
+    return findLinks(this.getContent()).links.find((link) => link.from <= index && index <= link.to) || null;
+  }
+
+  /**
+   * Apply the edits, which refer to offsets in the current content, as one undo step.
+   * @param edits the edits, which must not overlap
+   * @param origin the origin of the changes
+   */
+  protected applyEdits(edits: MarkdownEdit[], origin: string) {
+    if (!edits.length) return;
+    const positions = edits.map((edit) => ({
+      from: this.cm.posFromIndex(edit.from),
+      to: this.cm.posFromIndex(edit.to),
+      text: edit.text,
+    }));
+    this.cm.operation(() => {
+      positions
+        .sort((a, b) => CodeMirror.cmpPos(b.from, a.from))
+        .forEach((edit) => this.cm.replaceRange(edit.text, edit.from, edit.to, origin));
+    });
+  }
+
+  /**
+   * Insert a footnote reference `[^n]` at each cursor position and the corresponding definitions `[^n]: ` at the end
+   * of the document, to which the cursors are moved. The footnotes are renumbered in order of appearance,
+   * if `options.renumberFootnotes` is enabled.
+   */
+  public insertFootnote() {
+    const { references, definitions } = findFootnotes(this.getContent());
+    const numericLabels = [...references, ...definitions].filter((f) => /^\d+$/.test(f.label)).map((f) => +f.label);
+    let number = Math.max(0, ...numericLabels);
+    const positions = this.cm
+      .listSelections()
+      .map((selection) => selection.to())
+      .sort((a, b) => CodeMirror.cmpPos(a, b));
+    const labels = positions.map(() => `${++number}`);
+
+    this.cm.operation(() => {
+      for (let i = positions.length - 1; i >= 0; i--) {
+        this.cm.replaceRange(`[^${labels[i]}]`, positions[i], undefined, 'insertFootnote');
+      }
+
+      // Append the definitions to existing definitions at the end of the document, or separate them by a blank line
+      const content = this.getContent();
+      const contentEnd = content.replace(/\s+$/, '').length;
+      const endsWithDefinition = findFootnotes(content).definitions.some((d) => d.to === contentEnd);
+      const separator = !contentEnd ? '' : endsWithDefinition ? '\n' : '\n\n';
+      const definitionLines = labels.map((label) => `[^${label}]: `);
+      const start = this.cm.posFromIndex(contentEnd);
+      this.cm.replaceRange(separator + definitionLines.join('\n'), start, undefined, 'insertFootnote');
+
+      const firstLine = start.line + separator.length;
+      this.cm.setSelections(
+        definitionLines.map((line, i) => {
+          const pos = { line: firstLine + i, ch: line.length };
+          return { anchor: pos, head: pos };
+        })
+      );
+      if (this.options.renumberFootnotes) this.applyEdits(renumberFootnotes(this.getContent()), 'insertFootnote');
+    });
+    this.cm.focus();
+  }
+
+  /***** Extended Editor API *****/
+
+  /**
+   * Undo one edit. Shortcut for `Codemirror.undo()`.
+   */
+  public undo() {
+    this.cm.undo();
+  }
+
+  /**
+   * Redo one edit. Shortcut for `Codemirror.redo()`.
+   */
+  public redo() {
+    this.cm.redo();
+  }
+
+  /**
+   * Toggle the editor's rich-text mode. If off, there is no markdown styling inside the editor.
+   */
+  public toggleRichTextMode() {
+    const currentMode = this.cm.getOption('mode');
+    if (currentMode === 'gfm' || ['gfm', 'yaml-frontmatter'].includes(currentMode.name)) {
+      this.cm.setOption('mode', '');
+    } else {
+      this.cm.setOption('mode', this.getRichTextMode());
+    }
+  }
+
+  /**
+   * Toggle the preview pane, which shows the rendered HTML of the content next to or below the editor.
+   */
+  public togglePreview() {
+    this.options.preview = !this.options.preview;
+    this.applyPreviewOptions();
+  }
+
+  /**
+   * Update the preview with the rendered HTML of the current content. Only the top-level blocks which have changed
+   * are replaced. Each block element is annotated with its range of source lines (`data-source-line` and
+   * `data-source-end-line`), which is used to synchronize scrolling.
+   */
+  protected updatePreview() {
+    if (!this.preview) return;
+    const renderOptions = this.options.previewRenderOptions;
+    const blocks = renderMarkdownBlocks(this.getContent(), renderOptions).map((block) => ({
+      ...block,
+      html: renderOptions.sanitize === false ? block.html : sanitizeHtml(block.html, renderOptions),
+    }));
+
+    // Replace only the blocks between the unchanged blocks at the start and the end
+    const { element, blocks: oldBlocks } = this.preview;
+    const newBlocks = blocks.map((block) => block.html);
+    let start = 0;
+    while (start < oldBlocks.length && start < newBlocks.length && oldBlocks[start] === newBlocks[start]) start++;
+    let end = 0;
+    while (
+      end < oldBlocks.length - start &&
+      end < newBlocks.length - start &&
+      oldBlocks[oldBlocks.length - 1 - end] === newBlocks[newBlocks.length - 1 - end]
+    ) {
+      end++;
+    }
+
+    const blockElements = Array.from(element.children);
+    blockElements.slice(start, blockElements.length - end).forEach((blockElement) => blockElement.remove());
+    const nextBlockElement = blockElements[blockElements.length - end] || null;
+    for (const block of blocks.slice(start, blocks.length - end)) {
+      const blockElement = document.createElement('div');
+      blockElement.innerHTML = block.html;
+      element.insertBefore(blockElement, nextBlockElement);
+    }
+
+    // The source lines of unchanged blocks may have shifted as well
+    Array.from(element.children).forEach((blockElement, i) => {
+      const { from, to } = blocks[i];
+      if (from === undefined || to === undefined) {
+        blockElement.removeAttribute('data-source-line');
+        blockElement.removeAttribute('data-source-end-line');
+      } else {
+        blockElement.setAttribute('data-source-line', `${from}`);
+        blockElement.setAttribute('data-source-end-line', `${to}`);
+      }
+    });
+    this.preview.blocks = newBlocks;
+  }
+
+  /**
+   * Get the editor content converted to the specified format, e.g. to copy it to the clipboard.
+   * @param format The format of the content: `markdown`, `html` (fragment), `htmlDocument` (self-contained document)
+   * or `text` (plain text without markup).
+   * @param options Options to configure the rendering of the HTML formats.
+   */
+  public getContentAs(format: MarkdownEditorExportFormat, options?: MarkdownRenderOptions): string {
+    switch (format) {
+      case 'html':
+        return renderMarkdown(this.getContent(), options);
+      case 'htmlDocument':
+        return renderHtmlDocument(this.getContent(), options);
+      case 'text':
+        return markdownToPlainText(this.getContent());
+      default:
+        return this.getContent();
+    }
+  }
+
+  /**
+   * Start a file download containing the editor content in the specified format (Markdown by default).
+   * The name of the file is either `fileName` if specified, or generated by `downloadFileNameGenerator`
+   * specified in the Markdown Editor options.
+   * @param fileName The name of the downloaded file. Preferred over `options.downloadFileNameGenerator`.
+   * @param format The format of the content, see `getContentAs()`.
+   */
+  public downloadAsFile(fileName?: string, format: MarkdownEditorExportFormat = 'markdown') {
+    const content = this.getContentAs(format);
+    const type = format === 'html' || format === 'htmlDocument' ? 'text/html' : 'text/plain';
+    const data = new Blob([content], { type });
+    const url = window.URL.createObjectURL(data);
+    const a = document.createElement('a');
+    a.setAttribute('href', url);
+    fileName = fileName || this.options.downloadFileNameGenerator(format);
+    a.setAttribute('download', fileName);
+    a.click();
+    this.emit('export', content, fileName, format);
+  }
+
+  /**
+   * Import content from a file. Reads the content of `file` if specified, or opens the browser's
+   * file selection dialog and reads the content of the user-selected file.
+   * @param file The file to import the content from.
+   */
+  public importFromFile(file?: File) {
+    const readFile = (file: File) => {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        this.setContent(((event.target as FileReader).result || '') as string);
+        this.emit('import', this.getContent(), file);
+      };
+      reader.readAsText(file);
+    };
+
+    if (file) {
+      readFile(file);
+    } else {
+      const input = document.createElement('input');
+      input.setAttribute('type', 'file');
+      input.setAttribute('accept', '.txt, .text, .markdown, .mdown, .mkdn, .md, .mkd, .mdwn, .mdtxt, .mdtext');
+      input.onchange = (event) => {
+        const files = (event?.target as HTMLInputElement).files;
+        if (files) {
+          readFile(files[0]);
+        }
+      };
+      input.click();
+    }
+  }
+
+  /**
+   * Formats the content using Prettier's Markdown parser.
+   */
+  public formatContent() {
+    this.cm.operation(() => {
+      this.setContent(
+        prettier.format(this.getContent(), {
+          parser: 'markdown',
+          plugins: [parserMarkdown],
+        })
+      );
+      if (this.options.tableOfContents.autoUpdate === 'onFormat') this.updateTableOfContents();
+    });
+  }
+
+  /**
+   * Render the editor's content to GFM-compatible HTML, which is sanitized by default.
+   * @param options options to configure the rendering, e.g. the sanitization or hooks for links, images and code blocks
+   */
+  public renderHtml(options?: MarkdownRenderOptions): string {
+    return renderMarkdown(this.getContent(), options);
+  }
+
+  /**
+   * Upload image files via `options.imageUploadHandler` and insert a placeholder for each file at the specified
+   * position or in place of each selection. When an upload succeeds, its placeholder is replaced with an image link
+   * according to `options.preferredTemplates.imageLink`. Otherwise, the placeholder is removed along with the line
+   * break inserted before it, and the `imageUploadError` event is emitted.
+   *
+   * Files exceeding `options.imageUploadMaxSize` or not matching `options.imageUploadTypes` are rejected
+   * with the `imageUploadError` event as well.
+   * @param files the image files
+   * @param pos The position to insert the placeholders at. If not specified, the placeholders replace each selection.
+   */
+  public uploadImages(files: File[], pos?: CodeMirror.Position) {
+    const uploadHandler = this.options.imageUploadHandler;
+    if (!uploadHandler) {
+      console.warn('Caution: Images cannot be uploaded, because no `imageUploadHandler` is specified.');
+      return;
+    }
+
+    const maxSize = this.options.imageUploadMaxSize;
+    const acceptedFiles = files.filter((file) => {
+      let error: Error | undefined;
+      if (!this.isAllowedImageType(file)) {
+        error = new Error(`The type "${file.type}" of image "${file.name}" is not allowed.`);
+      } else if (maxSize && file.size > maxSize) {
+        error = new Error(`The image "${file.name}" exceeds the maximum size of ${maxSize} bytes.`);
+      }
+      if (error) this.emit('imageUploadError', error, file);
+      return !error;
+    });
+    if (!acceptedFiles.length) return;
+
+    // Brackets and backslashes of file names are escaped, so that they do not end the link text
+    const escapeText = (text: string) => text.replace(/([[\]\\])/g, '\\$1');
+
+    // Insert the placeholders in separate lines and mark them, so that they can be found after other edits.
+    // The marks include the preceding line break, so that no empty line is left if an upload fails.
+    const placeholders = acceptedFiles.map((file) => `![Uploading ${escapeText(file.name)}…]()`);
+    const placeholderMarkers: CodeMirror.TextMarker[][] = acceptedFiles.map(() => []);
+    const ranges = pos
+      ? [{ from: pos, to: pos }]
+      : this.cm.listSelections().map((s) => ({ from: s.from(), to: s.to() }));
+    this.cm.operation(() => {
+      for (const { from, to } of ranges.reverse()) {
+        this.cm.replaceRange(placeholders.join('\n'), from, to, '+uploadImages');
+        placeholders.forEach((placeholder, i) => {
+          const line = from.line + i;
+          const start = i === 0 ? from : { line: line - 1, ch: this.cm.getLine(line - 1).length };
+          const end = { line, ch: (i === 0 ? from.ch : 0) + placeholder.length };
+          placeholderMarkers[i].push(this.cm.markText(start, end));
+        });
+      }
+    });
+    this.cm.focus();
+
+    const replacePlaceholders = (markers: CodeMirror.TextMarker[], replacement: string) =>
+      this.cm.operation(() => {
+        for (const marker of markers) {
+          const range = marker.find() as CodeMirror.MarkerRange | undefined;
+          marker.clear();
+          if (range) this.cm.replaceRange(replacement, range.from, range.to, '+uploadImages');
+        }
+      });
+
+    acceptedFiles.forEach((file, i) => {
+      Promise.resolve()
+        .then(() => uploadHandler(file))
+        .then(
+          (url) => {
+            const [before, after] = this.options.preferredTemplates.imageLink;
+            const altText = escapeText(file.name.replace(/\.[^.]*$/, ''));
+            const formattedUrl = formatUrl(url);
+            // The url replaces the url of the template, e.g. `https://` in `](https://)`
+            const link =
+              before +
+              altText +
+              (after.includes('(') ? after.replace(/\([^\s)]*/, () => `(${formattedUrl}`) : after + formattedUrl);
+            replacePlaceholders(placeholderMarkers[i], (i > 0 ? '\n' : '') + link);
+          },
+          (error) => {
+            replacePlaceholders(placeholderMarkers[i], '');
+            this.emit('imageUploadError', error, file);
+          }
+        );
+    });
+  }
+
+  /**
+   * Returns whether the type of the file is allowed by `options.imageUploadTypes`.
+   * @param file the file
+   */
+  protected isAllowedImageType(file: File): boolean {
+    const allowedTypes = this.options.imageUploadTypes
+      .split(',')
+      .map((type) => type.trim().toLowerCase())
+      .filter((type) => type);
+    return allowedTypes.some((type) => {
+      if (type.startsWith('.')) return file.name.toLowerCase().endsWith(type);
+      if (type.endsWith('/*')) return file.type.startsWith(type.slice(0, -1));
+      return file.type === type;
+    });
+  }
+
+  /**
+   * Get the draft which has been saved automatically before the editor was created, e.g. before the browser tab
+   * crashed, if its content differs from the editor's content. Requires `options.autosave`.
+   */
+  public getRecoverableDraft(): Promise<MarkdownEditorDraft | undefined> {
+    return this.recoverableDraft.then((draft) => (draft && draft.content !== this.getContent() ? draft : undefined));
+  }
+
+  /**
+   * Restore the content and the selections of the draft returned by `getRecoverableDraft()`.
+   * @returns whether there has been a draft to restore
+   */
+  public restoreDraft(): Promise<boolean> {
+    return this.getRecoverableDraft().then((draft) => {
+      if (!draft) return false;
+      this.setContent(draft.content);
+      this.cm.setSelections(draft.selections);
+      this.recoverableDraft = Promise.resolve(undefined);
+      return true;
+    });
+  }
+
+  /**
+   * Discard the recoverable draft and remove the saved draft from the storage.
+   */
+  public discardDraft(): Promise<void> {
+    this.recoverableDraft = Promise.resolve(undefined);
+    return Promise.resolve()
+      .then(() => this.getDraftStorage().remove(this.options.autosaveKey))
+      .catch((error) => console.warn('Caution: The draft cannot be removed from the storage.', error));
+  }
+
+  /**
+   * Move the cursor to the specified heading and scroll it to the top of the editor.
+   * @param target The slug of the heading (with or without leading `#`) or its line number.
+   */
+  public goToHeading(target: string | number) {
+    const heading = this.getHeadings().find((h) =>
+      typeof target === 'string' ? h.slug === target.replace(/^#/, '') : h.from === target
+    );
+    if (heading) this.moveToHeading(heading);
+  }
+
+  /**
+   * Move the cursor to the next heading after the cursor's line.
+   */
+  public nextHeading() {
+    const line = this.cm.getCursor().line;
+    const heading = this.getHeadings().find((h) => h.from > line);
+    if (heading) this.moveToHeading(heading);
+  }
+
+  /**
+   * Move the cursor to the previous heading before the cursor's line.
+   */
+  public previousHeading() {
+    const line = this.cm.getCursor().line;
+    const heading = this.getHeadings()
+      .reverse()
+      .find((h) => h.from < line);
+    if (heading) this.moveToHeading(heading);
+  }
+
+  /**
+   * Move the cursor to the start of the heading, scroll it to the top of the editor and focus the editor.
+   */
+  protected moveToHeading(heading: MarkdownEditorHeading) {
+    this.cm.setCursor({ line: heading.from, ch: 0 });
+    this.cm.scrollTo(null, this.cm.heightAtLine(heading.from, 'local'));
+    this.cm.focus();
+  }
+
+  /**
+   * Jump from the footnote reference at the cursor position to its definition, or from the footnote definition at the
+   * cursor position to its first reference.
+   */
+  public jumpToFootnote() {
+    const index = this.cm.indexFromPos(this.cm.getCursor());
+    const { references, definitions } = findFootnotes(this.getContent());
+    const isSameLabel = (a: MarkdownFootnoteNode, b: MarkdownFootnoteNode) =>
+      a.label.toLowerCase() === b.label.toLowerCase();
+
+    const reference = references.find((r) => r.from <= index && index <= r.to);
+    const definition = definitions.find((d) => d.from <= index && index <= d.to);
+    if (reference) {
+      const target = definitions.find((d) => isSameLabel(d, reference));
+      if (!target) return;
+      const prefixLength =
+        this.getContent()
+          .substring(target.from)
+          .match(/^\[\^[^\]]*\]:[\t ]*/)?.[0].length || 0;
+      this.cm.setCursor(this.cm.posFromIndex(target.from + prefixLength));
+    } else if (definition) {
+      const target = references.find((r) => isSameLabel(r, definition));
+      if (!target) return;
+      this.cm.setCursor(this.cm.posFromIndex(target.to));
+    }
+    this.cm.focus();
+  }
+
+  /**
+   * Apply the quick fixes of the lint results in the lines of the selections.
+   */
+  public applyQuickFixes() {
+    const lines = this.cm.listSelections().map((selection) => [selection.from().line, selection.to().line]);
+    this.fixLintResults(
+      this.getLintResults().filter((result) =>
+        lines.some(([from, to]) => result.from.line <= to && result.to.line >= from)
+      )
+    );
+    this.cm.focus();
+  }
+
+  /**
+   * Find all matches of the query and highlight them with the class `markdown-editor-search-match`.
+   * The highlights are kept up to date after changes until `clearSearch()` is called or another query is searched.
+   * `findNext()`, `findPrevious()`, `replace()` and `replaceAll()` apply to the last query.
+   * @param query the text to find, or a regular expression if `options.regex` is `true`
+   * @param options the search options
+   * @returns the matches in order of appearance. An empty query or an invalid regular expression has no matches.
+   */
+  public find(query: string, options: MarkdownEditorSearchOptions = {}): MarkdownEditorSearchMatch[] {
+    this.clearSearch();
+    if (!query) return [];
+    let pattern: RegExp;
+    try {
+      pattern = createSearchPattern(query, options);
+    } catch (error) {
+      console.warn(`Caution: '${query}' is no valid regular expression.`, error);
+      return [];
+    }
+
+    const selections = options.inSelection ? this.cm.listSelections().filter((selection) => !selection.empty()) : [];
+    const scopes = selections.map((selection) =>
+      this.cm.markText(selection.from(), selection.to(), {
+        className: 'markdown-editor-search-scope',
+        clearWhenEmpty: false,
+      })
+    );
+    this.search = { pattern, regex: !!options.regex, scopes, marks: [] };
+    this.updateSearchMarks();
+    return this.getSearchMatches().map(({ from, to, match }) => ({ from, to, text: match[0] }));
+  }
+
+  /**
+   * Select the next match of the last query after the selection and scroll it into view. Continues at the start
+   * of the document after the last match.
+   */
+  public findNext() {
+    this.selectSearchMatch(1);
+  }
+
+  /**
+   * Select the previous match of the last query before the selection and scroll it into view. Continues at the end
+   * of the document before the first match.
+   */
+  public findPrevious() {
+    this.selectSearchMatch(-1);
+  }
+
+  protected selectSearchMatch(direction: 1 | -1) {
+    const matches = this.getSearchMatches();
+    if (!matches.length) return;
+    let match;
+    if (direction === 1) {
+      const cursor = this.cm.getCursor('to');
+      match = matches.find(({ from }) => CodeMirror.cmpPos(from, cursor) >= 0) || matches[0];
+    } else {
+      const cursor = this.cm.getCursor('from');
+      match = _.findLast(matches, ({ to }) => CodeMirror.cmpPos(to, cursor) <= 0) || matches[matches.length - 1];
+    }
+    this.cm.setSelection(match.from, match.to);
+    this.cm.scrollIntoView({ from: match.from, to: match.to }, 50);
+    this.updateSearchMarks();
+  }
+
+  /**
+   * Replace the selected match of the last query and select the next match. If no match is selected, only the next
+   * match is selected, so that it can be checked before it is replaced.
+   * @param replacement the replacement. For regular expressions, it may refer to capture groups like
+   * `String.prototype.replace()`, e.g. `$1` or `$<name>`.
+   */
+  public replace(replacement: string) {
+    const from = this.cm.getCursor('from');
+    const to = this.cm.getCursor('to');
+    const selectedMatch = this.getSearchMatches().find(
+      (m) => CodeMirror.cmpPos(m.from, from) === 0 && CodeMirror.cmpPos(m.to, to) === 0
+    );
+    if (selectedMatch) {
+      const text = this.getSearchReplacement(replacement, selectedMatch.match);
+      this.cm.replaceRange(text, selectedMatch.from, selectedMatch.to, '+replace');
+    }
+    this.findNext();
+  }
+
+  /**
+   * Replace all matches of the last query as one undo step.
+   * @param replacement the replacement, which may refer to capture groups like in `replace()`
+   * @returns the number of replaced matches
+   */
+  public replaceAll(replacement: string): number {
+    const matches = this.getSearchMatches();
+    const edits = matches.map(({ match }) => ({
+      from: match.index,
+      to: match.index + match[0].length,
+      text: this.getSearchReplacement(replacement, match),
+    }));
+    this.applyEdits(edits, 'replaceAll');
+    this.updateSearchMarks();
+    return matches.length;
+  }
+
+  /**
+   * Remove the highlights of the last query, e.g. when the search UI is closed.
+   */
+  public clearSearch() {
+    const search = this.search;
+    if (!search) return;
+    this.cm.operation(() => [...search.marks, ...search.scopes].forEach((mark) => mark.clear()));
+    this.search = undefined;
+  }
+
+  /**
+   * Request the host to open its search UI by emitting the `searchOpen` event.
+   */
+  public openSearch() {
+    this.emit('searchOpen', 'search', this.getSearchSuggestion());
+  }
+
+  /**
+   * Request the host to open its search and replace UI by emitting the `searchOpen` event.
+   */
+  public openReplace() {
+    this.emit('searchOpen', 'replace', this.getSearchSuggestion());
+  }
+
+  /**
+   * Get the selected text as query for the search UI, unless it spans several lines.
+   */
+  protected getSearchSuggestion(): string {
+    const selection = this.cm.getSelection();
+    return selection.includes('\n') ? '' : selection;
+  }
+
+  /***** Developer API *****/
+
+  /**
+   * Get the editor's content with the specified line break format.
+   * @param lineSeparator The line break format. Default is `\n`.
+   */
+  public getContent(lineSeparator = '\n'): string {
+    return this.cm.getValue(lineSeparator);
+  }
+
+  /**
+   * Get the editor's content with the lines as array.
+   */
+  public getContentPerLine(): string[] {
+    return this.cm.getValue().split('\n');
+  }
+
+  /**
+   * Set the editor's content with the specified line break format.
+   * @param content The content.
+   * @param lineSeparator The line break format. Default is `\n`.
+   */
+  public setContent(content: string, lineSeparator = '\n') {
+    if (lineSeparator !== '\n') content = content.replace(RegExp(lineSeparator, 'g'), '\n');
+    this.cm.setValue(content);
+  }
+
+  /**
+   * Get the editor's content with the lines as array.
+   */
+  public setContentPerLine(content: string[]) {
+    this.cm.setValue(content.join('\n'));
+  }
+
+  /**
+   * Focus the editor. Shortcut for `Codemirror.focus()`.
+   */
+  public focus() {
+    this.cm.focus();
+  }
+
+  /**
+   * Get the number of characters in the document. The front matter is not counted if `options.frontMatter.enabled`.
+   */
+  public getCharacterCount() {
+    // eslint-disable-next-line no-control-regex
+    return this.getContentWithoutFrontMatter().replace(RegExp('\n', 'gi'), '').length;
+  }
+
+  /**
+   * Get the number of words in the document. The front matter is not counted if `options.frontMatter.enabled`.
+   */
+  public getWordCount() {
+    const content = this.getContentWithoutFrontMatter();
+    let s = content.replace(/(^\s*)|(\s*$)/gi, ''); // Trim left and right
+    s = s.replace(/\t/gi, ' '); // Replace tabs by single whitespace
+    s = s.replace(/\n/gi, ' '); // Replace line breaks by single whitespace
+    s = s.replace(/[ ]{2,}/gi, ' '); // Reduce multiple whitespaces to a single one
+    let split = s.split(' '); // Split string by whitespaces
+    split = split.filter((x) => !/^\W+$/.test(x)); // Filter out non-alphanumeric words
+    return s === '' ? 0 : split.length;
+  }
+
+  /**
+   * Get the content after the front matter, or the whole content if `options.frontMatter.enabled` is `false`.
+   */
+  protected getContentWithoutFrontMatter(): string {
+    const content = this.cm.getValue();
+    const frontMatter = this.options.frontMatter.enabled ? findFrontMatter(content) : undefined;
+    return frontMatter ? content.substring(frontMatter.to) : content;
+  }
+
+  /**
+   * Get the current cursor position as a `{line, ch}` object.
+   * Shortcut for `Codemirror.getCursor()`.
+   */
+  public getCursorPos() {
+    return this.cm.getCursor();
+  }
+
+  /**
+   * Returns whether the document has been modified.
+   * Inverted shortcut for `Codemirror.isClean()`
+   */
+  public isDirty() {
+    return !this.cm.isClean();
+  }
+
+  /**
+   * Mark the document as saved, so that `isDirty()` returns `false` until the next change, and remove the saved draft.
+   * Wraps `Codemirror.markClean()`.
+   */
+  public markClean() {
+    this.cm.markClean();
+    if (this.autosaveTimeout) clearTimeout(this.autosaveTimeout);
+    this.autosaveTimeout = undefined;
+    if (this.options.autosave) this.discardDraft();
+    if (this.dirty) {
+      this.dirty = false;
+      this.emit('dirtyChange', false);
+    }
+  }
+
+  /**
+   * Check if text at current cursor position has specified token type
+   * like returned by `CodeMirror.getTokenTypeAt()`.
+   * @param token
+   */
+  public hasTokenAtCursorPos(token: string): boolean {
+    return this.cm.getTokenTypeAt(this.getCursorPos())?.split(' ').includes(token) || false;
+  }
+
+  /**
+   * Get the type of list in the specified line. Return undefined, if the line contains no list token.
+   * @param lineNumber
+   */
+  public getListTypeOfLine(lineNumber: number): 'unordered' | 'ordered' | 'check' | undefined {
+    const line = this.cm.getLine(lineNumber);
+    if (MarkdownEditorBase.CHECK_LIST_PATTERN.test(line)) return 'check';
+    if (MarkdownEditorBase.UNORDERED_LIST_PATTERN.test(line)) return 'unordered';
+    if (MarkdownEditorBase.ORDERED_LIST_PATTERN.test(line)) return 'ordered';
+    return undefined;
+  }
+
+  /**
+   * Get the action shortcuts effectively applied to the editor.
+   *
+   * This might be a mix of custom shortcuts, default shortcuts as specified in `DEFAULT_OPTIONS`
+   * and default shortcuts of custom actions registered via `registerAction()`.
+   */
+  public getShortcuts(): MarkdownEditorShortcuts {
+    const shortcuts: MarkdownEditorShortcuts = {};
+    if (this.options.shortcutsEnabled === 'all') {
+      for (const [name, customAction] of Object.entries(this.customActions)) {
+        shortcuts[name] = customAction.defaultShortcut;
+      }
+    }
+    return Object.assign(shortcuts, this.options.shortcuts);
+  }
+
+  /**
+   * Add the specified keyboard shortcut to the specified action function.
+   *
+   * **Note:** This does **not** replace an existing shortcut to the specified action,
+   * but only **adds** it. In case of an already existing shortcut, the result will be
+   * two distinct shortcuts to the same function. However, you can use `removeShortcut()`
+   * to remove the old one.
+   * @param hotkeys the hotkeys string as required by Codemirror
+   * @param action the action function
+   * @see https://codemirror.net/doc/manual.html#keymaps
+   */
+  public addShortcut(hotkeys: string, action: () => void) {
+    const extraKeys = (this.cm.getOption('extraKeys') || {}) as CodeMirror.KeyMap;
+    let shortcut: string;
+    if (isMac()) {
+      shortcut = hotkeys.replace('Ctrl', 'Cmd');
+    } else {
+      shortcut = hotkeys.replace('Cmd', 'Ctrl');
+    }
+    extraKeys[shortcut] = action;
+
+    this.cm.setOption('extraKeys', extraKeys);
+  }
+
+  /**
+   * Remove the specified keyboard shortcut.
+   *
+   * @param hotkeys the hotkeys string as required by Codemirror
+   * @see https://codemirror.net/doc/manual.html#keymaps
+   */
+  public removeShortcut(hotkeys: string) {
+    const extraKeys = (this.cm.getOption('extraKeys') || {}) as CodeMirror.KeyMap;
+    let shortcut: string;
+    if (isMac()) {
+      shortcut = hotkeys.replace('Ctrl', 'Cmd');
+    } else {
+      shortcut = hotkeys.replace('Cmd', 'Ctrl');
+    }
+    delete extraKeys[shortcut];
+
+    this.cm.setOption('extraKeys', extraKeys);
+  }
+
+  /**
+   * Get the formatting state at the cursor position of each selection, i.e. which inline formats
+   * are active and which block format the cursor's line has. The state is determined at the head
+   * of each selection.
+   *
+   * **Note:** Inline formats (bold, italic, strikethrough, inline code, link, image) are determined from
+   * the _CodeMirror_ tokens and are therefore only detected if `richTextMode` is enabled.
+   */
+  public getActiveFormats(): MarkdownEditorFormatState[] {
+    const codeBlockLines = this.getCodeBlockLines();
+    return this.cm.listSelections().map((selection) => {
+      const pos = selection.head;
+      const tokenTypes = this.cm.getTokenTypeAt(pos)?.split(' ') || [];
+      const codeBlock = codeBlockLines[pos.line];
+
+      let lineContent = this.cm.getLine(pos.line);
+      const quoteToken = codeBlock ? '' : lineContent.match(/^ {0,3}(>(\t| )?)+/)?.[0] || '';
+      lineContent = lineContent.substring(quoteToken.length);
+
+      let headingLevel = 0;
+      if (!codeBlock) {
+        const nextLine = this.cm.getLine(pos.line + 1);
+        headingLevel = lineContent.match(/^ {0,3}(#{1,6})(\t| |$)/)?.[1].length || 0;
+        if (!headingLevel && lineContent.trim() && !codeBlockLines[pos.line + 1]) {
+          if (/^ {0,3}=+\s*$/.test(nextLine)) headingLevel = 1;
+          else if (/^ {0,3}-+\s*$/.test(nextLine) && !this.getListTypeOfLine(pos.line)) headingLevel = 2;
+        }
+      }
+
+      const image = ['image', 'image-alt-text', 'image-marker'].some((t) => tokenTypes.includes(t));
+      return {
+        bold: tokenTypes.includes('strong'),
+        italic: tokenTypes.includes('em'),
+        strikethrough: tokenTypes.includes('strikethrough'),
+        inlineCode: !codeBlock && tokenTypes.includes('code'),
+        link: !image && (tokenTypes.includes('link') || tokenTypes.includes('link-text')),
+        image,
+        headingLevel: headingLevel as MarkdownEditorFormatState['headingLevel'],
+        listType: codeBlock ? undefined : this.getListTypeOfLine(pos.line),
+        quoteDepth: quoteToken.split('>').length - 1,
+        codeBlock,
+      };
+    });
+  }
+
+  /**
+   * Get all check list items of the document (outside of code blocks) and the number of checked ones.
+   */
+  public getTaskProgress(): MarkdownEditorTaskProgress {
+    const codeBlockLines = this.getCodeBlockLines();
+    const tasks: MarkdownEditorTaskProgress['tasks'] = [];
+    this.getContentPerLine().forEach((lineContent, lineNumber) => {
+      const token = lineContent.match(MarkdownEditorBase.CHECK_LIST_PATTERN)?.[0];
+      if (!token || codeBlockLines[lineNumber]) return;
+      const indentation = lineContent.match(/^(\t| )*/)?.[0] || '';
+      tasks.push({
+        line: lineNumber,
+        checked: !token.includes('[ ]'),
+        text: lineContent.substring(token.length),
+        indentationLevel: this.getIndentationLevel(indentation),
+      });
+    });
+    return { done: tasks.filter((task) => task.checked).length, total: tasks.length, tasks };
+  }
+
+  /**
+   * Get the element of the preview pane, e.g. to style it. Returns `undefined` if the preview is hidden.
+   */
+  public getPreviewElement(): HTMLElement | undefined {
+    return this.preview?.element;
+  }
+
+  /**
+   * Get the table at the cursor position as CSV or other delimiter-separated text.
+   * @param delimiter The delimiter of the cells. Default is `,`.
+   * @returns the text, or `undefined` if the cursor is not inside a table
+   */
+  public tableToCsv(delimiter = ','): string | undefined {
+    const tableRange = this.getTableRange(this.cm.getCursor().line);
+    if (!tableRange) return undefined;
+    const lines = this.getContentPerLine().slice(tableRange.from, tableRange.to + 1);
+    return tableToDelimitedText(parseTable(lines), delimiter);
+  }
+
+  /**
+   * Get the outline of the document, i.e. a tree of its ATX (`# Heading`) and setext headings, in which each heading
+   * contains the headings of its section. Headings inside of code blocks, quotes or lists are not part of the outline.
+   */
+  public getOutline(): MarkdownEditorHeading[] {
+    const outline: MarkdownEditorHeading[] = [];
+    const parents: MarkdownEditorHeading[] = [];
+    for (const heading of this.getHeadings()) {
+      while (parents.length && parents[parents.length - 1].level >= heading.level) parents.pop();
+      (parents.length ? parents[parents.length - 1].children : outline).push(heading);
+      parents.push(heading);
+    }
+    return outline;
+  }
+
+  /**
+   * Get all headings of the outline as flat list in order of appearance, each without children.
+   */
+  protected getHeadings(): MarkdownEditorHeading[] {
+    const headings: MarkdownEditorHeading[] = [];
+    // The slugs of nested headings are collected as well, so that duplicate slugs are numbered like in `renderHtml()`
+    const slugs: { [slug: string]: number } = {};
+    const collectHeadings = (node: MarkdownNode, isTopLevel: boolean) => {
+      for (const child of node.children || []) {
+        if (child.type === 'heading') {
+          const text = getPlainText(child).trim();
+          const slug = createSlug(text, slugs);
+          if (!isTopLevel || !child.position) continue;
+          const level = child.depth as MarkdownEditorHeading['level'];
+          headings.push({ level, text, slug, from: child.position.start.line - 1, to: 0, children: [] });
+        } else if (child.type !== 'footnoteDefinition') {
+          collectHeadings(child, false);
+        }
+      }
+    };
+    collectHeadings(parseMarkdown(this.getContent()), true);
+
+    headings.forEach((heading, i) => {
+      const nextHeading = headings.slice(i + 1).find((h) => h.level <= heading.level);
+      heading.to = nextHeading ? nextHeading.from - 1 : this.cm.lastLine();
+    });
+    return headings;
+  }
+
+  /**
+   * Get all links of the document with their kind, text, target and position. Images are not included.
+   */
+  public getLinks(): MarkdownEditorLink[] {
+    return findLinks(this.getContent()).links.map(({ from, to, ...link }) => ({
+      ...link,
+      from: this.cm.posFromIndex(from),
+      to: this.cm.posFromIndex(to),
+    }));
+  }
+
+  /**
+   * Get the footnote references without definition and the footnote definitions without reference.
+   * For definitions, the position refers to the label `[^label]:`.
+   */
+  public getFootnoteWarnings(): MarkdownEditorFootnoteWarning[] {
+    const content = this.getContent();
+    const { references, definitions } = findFootnotes(content);
+    const referenceLabels = references.map((r) => r.label.toLowerCase());
+    const definitionLabels = definitions.map((d) => d.label.toLowerCase());
+
+    const warnings: MarkdownEditorFootnoteWarning[] = [];
+    for (const reference of references) {
+      if (definitionLabels.includes(reference.label.toLowerCase())) continue;
+      warnings.push({
+        kind: 'orphanedReference',
+        label: reference.label,
+        message: `Footnote [^${reference.label}] has no definition.`,
+        from: this.cm.posFromIndex(reference.from),
+        to: this.cm.posFromIndex(reference.to),
+      });
+    }
+    for (const definition of definitions) {
+      if (referenceLabels.includes(definition.label.toLowerCase())) continue;
+      warnings.push({
+        kind: 'orphanedDefinition',
+        label: definition.label,
+        message: `Footnote [^${definition.label}] is not referenced.`,
+        from: this.cm.posFromIndex(definition.from),
+        to: this.cm.posFromIndex(content.indexOf(']', definition.from) + 2),
+      });
+    }
+    return warnings.sort((a, b) => CodeMirror.cmpPos(a.from, b.from));
+  }
+
+  /**
+   * Lint the content with the built-in rules and `options.linting.customRules`, as configured by
+   * `options.linting.rules`. Unlike the automatic linting, this also works if `options.linting.enabled` is `false`.
+   */
+  public getLintResults(): MarkdownEditorLintResult[] {
+    const { rules: severities, customRules } = this.options.linting;
+    const rules: { [name: string]: MarkdownEditorLintRule } = {};
+    for (const [name, rule] of Object.entries({ ...BUILT_IN_LINT_RULES, ...customRules })) {
+      if (severities[name] === false) continue;
+      rules[name] = (context) => {
+        try {
+          return rule(context);
+        } catch (error) {
+          console.warn(`Caution: Lint rule '${name}' failed.`, error);
+          return [];
+        }
+      };
+    }
+
+    return lintMarkdown(this.getContent(), rules, this.options.preferredTokens).map(
+      ({ rule, message, from, to, fix }) => ({
+        rule,
+        severity: severities[rule] === 'error' ? 'error' : 'warning',
+        message,
+        from: this.cm.posFromIndex(from),
+        to: this.cm.posFromIndex(to),
+        ...(fix && { fix: { from: this.cm.posFromIndex(fix.from), to: this.cm.posFromIndex(fix.to), text: fix.text } }),
+      })
+    );
+  }
+
+  /**
+   * Apply the fixes of the specified lint results as one undo step. Fixes overlapping a previous fix are skipped.
+   * @param results the lint results as returned by `getLintResults()`. Default are all results.
+   */
+  public fixLintResults(results = this.getLintResults()) {
+    const edits: MarkdownEdit[] = [];
+    for (const { fix } of results) {
+      if (!fix) continue;
+      const edit = { from: this.cm.indexFromPos(fix.from), to: this.cm.indexFromPos(fix.to), text: fix.text };
+      if (edits.some((e) => edit.from < e.to && e.from < edit.to)) continue;
+      edits.push(edit);
+    }
+    this.applyEdits(edits, 'fixLintResults');
+  }
+
+  /**
+   * Get the misspelled word at the specified position with the suggestions of `options.spellCheck.checker`,
+   * e.g. for a context menu. Resolves with `undefined` if there is no misspelled word at the position.
+   * @param pos the position, default is the cursor position
+   */
+  public getSpellingSuggestions(pos = this.cm.getCursor()): Promise<MarkdownEditorMisspelling | undefined> {
+    const { enabled, checker } = this.options.spellCheck;
+    const misspelling = this.findMisspellings(pos.line).find((m) => m.from <= pos.ch && pos.ch <= m.to);
+    if (!enabled || !checker || !misspelling) return Promise.resolve(undefined);
+    const { word, from, to } = misspelling;
+    return Promise.resolve(checker.suggest(word)).then((suggestions) => ({
+      word,
+      from: { line: pos.line, ch: from },
+      to: { line: pos.line, ch: to },
+      suggestions,
+    }));
+  }
+
+  /**
+   * Add the word to the ignore list of the spell check, which is saved to `options.spellCheck.ignoreListStorage`.
+   * Words are ignored regardless of their case.
+   * @param word the word
+   */
+  public ignoreWord(word: string) {
+    this.updateIgnoredWords((words) => _.union(words, [word]));
+  }
+
+  /**
+   * Remove the word from the ignore list of the spell check.
+   * @param word the word
+   */
+  public unignoreWord(word: string) {
+    this.updateIgnoredWords((words) => words.filter((w) => w.toLowerCase() !== word.toLowerCase()));
+  }
+
+  /**
+   * Get the words of the ignore list of the spell check.
+   */
+  public getIgnoredWords(): string[] {
+    return [...this.ignoredWords];
+  }
+
+  /**
+   * Get the data of the YAML front matter, parsed by `options.frontMatter.parser`.
+   * Unlike the highlighting, this also works if `options.frontMatter.enabled` is `false`.
+   * @returns the data, or `undefined` if there is no front matter or it cannot be parsed
+   */
+  public getFrontMatter(): MarkdownEditorFrontMatter | undefined {
+    const frontMatter = findFrontMatter(this.getContent());
+    if (!frontMatter) return undefined;
+    try {
+      return this.parseFrontMatter(frontMatter.yaml);
+    } catch (error) {
+      console.warn('Caution: The front matter cannot be parsed.', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Replace the front matter with the data, which is stringified by `options.frontMatter.parser`, as one undo step.
+   * Only the entries of top-level keys whose values have changed are rewritten, and new keys are appended. All other
+   * lines, e.g. comments and the formatting of unchanged entries, are kept. If the current front matter cannot be
+   * parsed, it is replaced as a whole. The content after the front matter is not changed. If there is no front matter
+   * yet, it is inserted at the start of the document.
+   * @param data the data, or `undefined` to remove the front matter
+   * @returns `false` if the data is rejected by `options.frontMatter.validate`
+   */
+  public setFrontMatter(data: MarkdownEditorFrontMatter | undefined): boolean {
+    const errors = data ? this.options.frontMatter.validate?.(data) || [] : [];
+    if (errors.length) {
+      console.warn(`Caution: The front matter is invalid: ${errors.join(' ')}`);
+      return false;
+    }
+
+    const content = this.getContent();
+    const frontMatter = findFrontMatter(content);
+    let currentData: MarkdownEditorFrontMatter | undefined;
+    try {
+      currentData = frontMatter && data ? this.parseFrontMatter(frontMatter.yaml) : undefined;
+    } catch (error) {
+      currentData = undefined;
+    }
+    if (data && currentData) {
+      const changes: MarkdownEditorFrontMatter = {};
+      for (const key of Object.keys({ ...currentData, ...data })) {
+        if (!_.isEqual(data[key], currentData[key])) changes[key] = data[key];
+      }
+      this.applyEdits(updateFrontMatterEntries(content, changes, this.options.frontMatter.parser), 'setFrontMatter');
+      return true;
+    }
+
+    const yaml = data ? this.options.frontMatter.parser.stringify(data).replace(/\n$/, '') : '';
+    const text = data ? `---\n${yaml}${yaml ? '\n' : ''}---` : '';
+    if (frontMatter) {
+      // Without front matter, the line break after it and a following blank line are removed as well, like they
+      // are inserted with the front matter
+      const lineBreaks = data ? '' : (content.slice(frontMatter.to).match(/^\n(?:[^\S\n]*\n)?/) || [''])[0];
+      const to = frontMatter.to + lineBreaks.length;
+      this.cm.replaceRange(text, this.cm.posFromIndex(0), this.cm.posFromIndex(to), 'setFrontMatter');
+    } else if (data) {
+      const separator = content ? '\n\n' : '\n';
+      this.cm.replaceRange(text + separator, this.cm.posFromIndex(0), undefined, 'setFrontMatter');
+    }
+    return true;
+  }
+
+  /**
+   * Update the specified keys of the front matter, keeping all other keys and their lines as they are. Keys with the
+   * value `undefined` are removed.
+   * @param data the data to change
+   * @returns `false` if the current front matter cannot be parsed or the data is rejected by
+   * `options.frontMatter.validate`
+   */
+  public updateFrontMatter(data: MarkdownEditorFrontMatter): boolean {
+    const currentData = this.getFrontMatter();
+    if (!currentData && findFrontMatter(this.getContent())) return false;
+    return this.setFrontMatter(_.omitBy({ ...currentData, ...data }, _.isUndefined));
+  }
+
+  /**
+   * Validate the current front matter with `options.frontMatter.validate`. Without front matter, empty data
+   * is validated.
+   * @returns the error messages of the parser and the validation hook
+   */
+  public validateFrontMatter(): string[] {
+    const frontMatter = findFrontMatter(this.getContent());
+    let data: MarkdownEditorFrontMatter;
+    try {
+      data = frontMatter ? this.parseFrontMatter(frontMatter.yaml) : {};
+    } catch (error) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+    return this.options.frontMatter.validate?.(data) || [];
+  }
+
+  /**
+   * Parse the YAML of the front matter with `options.frontMatter.parser`. Empty YAML results in empty data.
+   * @throws an error if the YAML cannot be parsed or is no mapping
+   */
+  protected parseFrontMatter(yaml: string): MarkdownEditorFrontMatter {
+    const data = this.options.frontMatter.parser.parse(yaml);
+    if (data === null || data === undefined) return {};
+    if (!_.isPlainObject(data)) throw new Error('The front matter is no mapping of keys to values.');
+    return data as MarkdownEditorFrontMatter;
+  }
+
+  /**
+   * Determine for each line of the document whether it belongs to a fenced code block,
+   * including the lines of the opening and closing fence.
+   * @returns an array which is indexed by line number
+   */
+  protected getCodeBlockLines(): boolean[] {
+    const codeBlockLines: boolean[] = [];
+    let openingFence: string | undefined;
+    this.cm.eachLine((line) => {
+      const fence = line.text.match(MarkdownEditorBase.CODE_BLOCK_FENCE_PATTERN)?.[1];
+      if (openingFence === undefined) {
+        // Backtick fences must not be followed by further backticks in the same line
+        if (
+          fence &&
+          !(fence[0] === '`' && line.text.substring(line.text.indexOf(fence) + fence.length).includes('`'))
+        ) {
+          openingFence = fence;
+        }
+        codeBlockLines.push(openingFence !== undefined);
+      } else {
+        codeBlockLines.push(true);
+        if (
+          fence &&
+          fence[0] === openingFence[0] &&
+          fence.length >= openingFence.length &&
+          !line.text.trim().replace(fence, '')
+        ) {
+          openingFence = undefined;
+        }
+      }
+    });
+    return codeBlockLines;
+  }
+
+  /**
+   * Register the specified listener for the specified event.
+   * @param event the event name
+   * @param listener the listener function
+   */
+  public on<E extends MarkdownEditorEvent>(event: E, listener: MarkdownEditorEventMap[E]) {
+    const listeners = (this.eventListeners[event] || []) as MarkdownEditorEventMap[E][];
+    listeners.push(listener);
+    this.eventListeners[event] = listeners as EventListeners[E];
+  }
+
+  /**
+   * Remove the specified listener for the specified event, which has been registered via `mde.on()`.
+   * @param event the event name
+   * @param listener the listener function
+   */
+  public off<E extends MarkdownEditorEvent>(event: E, listener: MarkdownEditorEventMap[E]) {
+    const listeners = (this.eventListeners[event] || []) as MarkdownEditorEventMap[E][];
+    this.eventListeners[event] = listeners.filter((l) => l !== listener) as EventListeners[E];
+  }
+
+  /**
+   * Call all listeners registered for the specified event with the specified arguments.
+   * @param event the event name
+   * @param args the arguments passed to the listeners
+   */
+  protected emit<E extends MarkdownEditorEvent>(event: E, ...args: Parameters<MarkdownEditorEventMap[E]>) {
+    const listeners = (this.eventListeners[event] || []) as ((...args: unknown[]) => void)[];
+    listeners.forEach((listener) => listener(...args));
+  }
+
+  /**
+   * Register a custom action, which can then be executed via `executeAction()` and bound to a keyboard
+   * shortcut via `options.shortcuts` like any built-in action. Unlike shortcuts added via `addShortcut()`,
+   * the shortcuts of custom actions are preserved when `setOptions()` is called.
+   *
+   * The `defaultShortcut` is applied if `shortcutsEnabled` is `all` and `options.shortcuts` does not specify
+   * a shortcut for the action. It can be disabled by specifying an empty string in `options.shortcuts`.
+   * @param name the action name, which must not be the name of a built-in action
+   * @param handler the function executing the action
+   * @param options.defaultShortcut the default hotkeys string as required by Codemirror
+   */
+  public registerAction(name: string, handler: MarkdownEditorActionHandler, options?: { defaultShortcut?: string }) {
+    if (BUILT_IN_ACTIONS.includes(name as MarkdownEditorAction)) {
+      console.warn(`Caution: Action '${name}' is a built-in action and cannot be registered as custom action.`);
+      return;
+    }
+    this.customActions[name] = { handler, defaultShortcut: options?.defaultShortcut };
+    this.applyEditorKeyMappings();
+  }
+
+  /**
+   * Remove a custom action that has been registered via `registerAction()`, including its keyboard shortcut.
+   * @param name the action name
+   */
+  public unregisterAction(name: string) {
+    delete this.customActions[name];
+    this.applyEditorKeyMappings();
+  }
+
+  /**
+   * Execute the built-in or custom action with the specified name.
+   * @param name the action name
+   * @param args the arguments passed to the action
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  public executeAction(name: MarkdownEditorAction | string, ...args: any[]) {
+    if (BUILT_IN_ACTIONS.includes(name as MarkdownEditorAction)) {
+      (this[name as MarkdownEditorAction] as MarkdownEditorActionHandler)(...args);
+    } else if (this.customActions[name]) {
+      this.customActions[name].handler(...args);
+      this.emit('actionExecuted', name, args);
+    } else {
+      console.warn(`Caution: Action '${name}' does not exist.`);
+    }
+  }
+
+  /**
+   * Returns whether any listener is registered for the specified event.
+   * @param event the event name
+   */
+  protected hasListeners(event: MarkdownEditorEvent): boolean {
+    return !!this.eventListeners[event]?.length;
+  }
+
+  /***** Markdown Editor Options *****/
 
   /**
    * Overwrites current options with specified options.
@@ -862,6 +2848,10 @@ class MarkdownEditorBase {
     this.options = _.merge(this.options, options);
     this.applyCodemirrorOptions();
     this.applyEditorKeyMappings();
+    this.applyPreviewOptions();
+    this.updateLintMarkers();
+    this.updateMisspellings();
+    this.emit('optionsChange', options);
   }
 
   /**
@@ -879,10 +2869,12 @@ class MarkdownEditorBase {
     this.cm.setOption('readOnly', this.options.disabled);
     this.cm.setOption('tabSize', this.options.tabSize);
     this.cm.setOption('theme', this.options.themes.join(' '));
+    this.cm.setOption('gutters', this.options.linting.enabled ? [MarkdownEditorBase.LINT_GUTTER] : []);
 
     if (this.options.richTextMode) {
-      if (this.cm.getOption('mode')?.name !== 'gfm') {
-        this.cm.setOption('mode', this.getGfmMode());
+      const mode = this.getRichTextMode();
+      if (this.cm.getOption('mode')?.name !== mode.name) {
+        this.cm.setOption('mode', mode);
       }
     } else {
       this.cm.setOption('mode', '');
@@ -890,7 +2882,67 @@ class MarkdownEditorBase {
   }
 
   /**
-   * Apply the key map for markdown editor actions specified in `this.options.shortcuts`
+   * Show or hide the preview pane as specified in `this.options`. The editor and the preview are placed in a
+   * container element (`.markdown-editor-preview-container`) in place of the editor.
+   */
+  protected applyPreviewOptions() {
+    if (!this.options.preview) {
+      this.unmountPreview();
+      return;
+    }
+
+    const wrapper = this.cm.getWrapperElement();
+    if (!this.preview) {
+      const container = document.createElement('div');
+      container.className = 'markdown-editor-preview-container';
+      container.style.position = 'relative';
+      const element = document.createElement('div');
+      element.className = 'markdown-editor-preview';
+      element.style.overflow = 'auto';
+      wrapper.parentNode?.insertBefore(container, wrapper);
+      container.append(wrapper, element);
+      this.preview = { container, element, blocks: [] };
+
+      element.addEventListener('scroll', () => this.syncScrollPosition('preview'));
+      element.addEventListener('click', (event) => {
+        const block = (event.target as HTMLElement).closest?.('[data-source-line]');
+        if (!block || !element.contains(block)) return;
+        this.cm.setCursor({ line: +(block.getAttribute('data-source-line') as string), ch: 0 });
+        this.cm.focus();
+      });
+    }
+
+    // Next to the editor, the preview fills the editor's height. Below the editor, it gets the editor's height.
+    const element = this.preview.element;
+    const isRight = this.options.previewPosition === 'right';
+    wrapper.style.width = isRight ? '50%' : '';
+    Object.assign(element.style, {
+      position: isRight ? 'absolute' : 'relative',
+      top: isRight ? '0' : '',
+      right: isRight ? '0' : '',
+      bottom: isRight ? '0' : '',
+      width: isRight ? '50%' : '',
+      height: !isRight && wrapper.offsetHeight ? `${wrapper.offsetHeight}px` : '',
+    });
+    this.cm.refresh();
+    this.updatePreview();
+  }
+
+  /**
+   * Remove the preview pane and its container element, if the preview is shown.
+   */
+  protected unmountPreview() {
+    if (!this.preview) return;
+    const wrapper = this.cm.getWrapperElement();
+    wrapper.style.width = '';
+    this.preview.container.parentNode?.insertBefore(wrapper, this.preview.container);
+    this.preview.container.remove();
+    this.preview = undefined;
+    this.cm.refresh();
+  }
+
+  /**
+   * Apply the key map for built-in and custom markdown editor actions as returned by `getShortcuts()`
    * to the Codemirror editor instance.
    */
   protected applyEditorKeyMappings() {
@@ -899,7 +2951,11 @@ class MarkdownEditorBase {
       return;
     }
 
-    const bindings: { [key in keyof Required<MarkdownEditorShortcuts>]: () => void } = {
+    const builtInBindings: {
+      [key in Exclude<MarkdownEditorAction, 'setHeadingLevel' | 'setTableColumnAlignment' | 'goToHeading'>]: () =>
+        | void
+        | typeof CodeMirror.Pass;
+    } = {
       increaseHeadingLevel: () => this.increaseHeadingLevel(),
       decreaseHeadingLevel: () => this.decreaseHeadingLevel(),
       toggleBold: () => this.toggleBold(),
@@ -908,24 +2964,60 @@ class MarkdownEditorBase {
       toggleUnorderedList: () => this.toggleUnorderedList(),
       toggleOrderedList: () => this.toggleOrderedList(),
       toggleCheckList: () => this.toggleCheckList(),
+      toggleCheckListItemState: () => this.toggleCheckListItemState(),
+      indentListItem: () => (this.hasListItemInSelections() ? this.indentListItem() : CodeMirror.Pass),
+      outdentListItem: () => (this.hasListItemInSelections() ? this.outdentListItem() : CodeMirror.Pass),
       toggleQuote: () => this.toggleQuote(),
       insertLink: () => this.insertLink(),
       insertImageLink: () => this.insertImageLink(),
       insertTable: () => this.insertTable(),
+      insertTableRow: () => this.insertTableRow(),
+      deleteTableRow: () => this.deleteTableRow(),
+      insertTableColumn: () => this.insertTableColumn(),
+      deleteTableColumn: () => this.deleteTableColumn(),
+      moveTableColumnLeft: () => this.moveTableColumnLeft(),
+      moveTableColumnRight: () => this.moveTableColumnRight(),
+      convertSelectionToTable: () => this.convertSelectionToTable(),
+      promoteSection: () => this.promoteSection(),
+      demoteSection: () => this.demoteSection(),
+      moveSectionUp: () => this.moveSectionUp(),
+      moveSectionDown: () => this.moveSectionDown(),
+      selectSection: () => this.selectSection(),
+      insertTableOfContents: () => this.insertTableOfContents(),
+      convertLinkToReference: () => this.convertLinkToReference(),
+      convertLinkToInline: () => this.convertLinkToInline(),
+      convertAllLinksToReference: () => this.convertAllLinksToReference(),
+      convertAllLinksToInline: () => this.convertAllLinksToInline(),
+      cleanUpLinkDefinitions: () => this.cleanUpLinkDefinitions(),
+      insertFootnote: () => this.insertFootnote(),
+      jumpToFootnote: () => this.jumpToFootnote(),
       insertHorizontalRule: () => this.insertHorizontalRule(),
       toggleInlineCode: () => this.toggleInlineCode(),
       insertCodeBlock: () => this.insertCodeBlock(),
       openMarkdownGuide: () => this.openMarkdownGuide(),
       toggleRichTextMode: () => this.toggleRichTextMode(),
+      togglePreview: () => this.togglePreview(),
+      nextHeading: () => this.nextHeading(),
+      previousHeading: () => this.previousHeading(),
       downloadAsFile: () => this.downloadAsFile(),
       importFromFile: () => this.importFromFile(),
       formatContent: () => this.formatContent(),
+      applyQuickFixes: () => this.applyQuickFixes(),
+      openSearch: () => this.openSearch(),
+      openReplace: () => this.openReplace(),
+      findNext: () => this.findNext(),
+      findPrevious: () => this.findPrevious(),
     };
+    const bindings: { [action: string]: () => void | typeof CodeMirror.Pass } = { ...builtInBindings };
+    for (const name of Object.keys(this.customActions)) {
+      bindings[name] = () => this.executeAction(name);
+    }
 
-    const shortcuts = this.options.shortcuts;
+    const shortcuts = this.getShortcuts();
     const extraKeys = {} as CodeMirror.KeyMap;
+    const boundActions: { [shortcut: string]: string } = {};
     for (const [key, value] of Object.entries(shortcuts)) {
-      if (value) {
+      if (value && bindings[key]) {
         let shortcut: string;
         if (isMac()) {
           shortcut = value.replace('Ctrl', 'Cmd');
@@ -935,7 +3027,7 @@ class MarkdownEditorBase {
         if (extraKeys[shortcut]) {
           console.warn(
             `Caution: Duplicate keybinding! Shortcut '${shortcut}' was already ` +
-              `bound to action '${extraKeys[shortcut].toString().slice(27, -5)}' ` +
+              `bound to action '${boundActions[shortcut]}' ` +
               `and is now overridden with action '${key}'.`
           );
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -947,7 +3039,8 @@ class MarkdownEditorBase {
               `and is now overridden with action '${key}'.`
           );
         }
-        extraKeys[shortcut] = bindings[key as keyof MarkdownEditorShortcuts];
+        extraKeys[shortcut] = bindings[key];
+        boundActions[shortcut] = key;
       }
     }
 
@@ -991,6 +3084,15 @@ class MarkdownEditorBase {
     };
   }
 
+  /**
+   * Get the mode of rich-text mode: the GFM mode, which is wrapped so that a leading front matter is highlighted
+   * as YAML if `options.frontMatter.enabled` is `true`.
+   */
+  private getRichTextMode() {
+    const gfmMode = this.getGfmMode();
+    return this.options.frontMatter.enabled ? { name: 'yaml-frontmatter', base: gfmMode } : gfmMode;
+  }
+
   /**
    * Remove the `.cm-link` class from images' alt texts because text is not a link.
    * This has been hardcoded to Codemirror's Markdown mode and thus cannot be changed
@@ -1005,6 +3107,810 @@ class MarkdownEditorBase {
       });
     }
   }
+
+  /**
+   * Emit the `formatStateChange` event whenever cursor activity results in a different
+   * return value of `getActiveFormats()`.
+   */
+  private observeFormatStates() {
+    this.cm.on('cursorActivity', () => {
+      if (!this.hasListeners('formatStateChange')) return;
+      const formatStates = this.getActiveFormats();
+      if (!_.isEqual(formatStates, this.formatStates)) {
+        this.formatStates = formatStates;
+        this.emit('formatStateChange', formatStates);
+      }
+    });
+  }
+
+  /**
+   * Emit the editor events `focus`, `blur`, `dirtyChange`, `contentChange` and `outlineChange`
+   * on the corresponding _CodeMirror_ events. The outline is only determined if there are listeners.
+   */
+  private observeEditorEvents() {
+    this.cm.on('focus', () => this.emit('focus'));
+    this.cm.on('blur', () => this.emit('blur'));
+    this.cm.on('changes', () => {
+      if (this.isDirty() !== this.dirty) {
+        this.dirty = this.isDirty();
+        this.emit('dirtyChange', this.dirty);
+      }
+
+      if (this.contentChangeTimeout) clearTimeout(this.contentChangeTimeout);
+      this.contentChangeTimeout = setTimeout(() => {
+        this.emit('contentChange', this.getContent());
+        if (this.hasListeners('outlineChange')) {
+          const outline = this.getOutline();
+          if (!_.isEqual(outline, this.outline)) {
+            this.outline = outline;
+            this.emit('outlineChange', outline);
+          }
+        }
+      }, this.options.contentChangeDelay);
+    });
+  }
+
+  /**
+   * Add the key maps for editor behavior which is configured by specific options instead of `options.shortcuts`,
+   * e.g. list continuation or table editing. Its bindings take precedence over all shortcuts and pass the key
+   * to the remaining key maps if the behavior is disabled or not applicable.
+   */
+  private addBehaviorKeyMap() {
+    this.cm.addKeyMap({
+      Enter: () => (this.options.listContinuation ? this.newlineAndContinueList() : CodeMirror.Pass),
+    });
+    // Added last to take precedence over list handling
+    this.cm.addKeyMap({
+      Tab: () => (this.options.tableEditing ? this.moveToTableCell(1) : CodeMirror.Pass),
+      'Shift-Tab': () => (this.options.tableEditing ? this.moveToTableCell(-1) : CodeMirror.Pass),
+      Enter: () => (this.options.tableEditing ? this.newlineInTable() : CodeMirror.Pass),
+    });
+  }
+
+  /**
+   * Toggle the state of a check list item when its checkbox token (`[ ]` or `[x]`) is clicked in rich-text mode.
+   */
+  private toggleCheckListItemOnClick() {
+    this.cm.on('mousedown', (_instance: CodeMirror.Editor, event: MouseEvent) => {
+      const target = event.target as HTMLElement;
+      const isTaskToken = target.classList?.contains('cm-meta') || target.classList?.contains('cm-property');
+      if (!isTaskToken || !this.options.richTextMode || this.options.disabled) return;
+
+      const pos = this.cm.coordsChar({ left: event.clientX, top: event.clientY }, 'window');
+      const lineContent = this.cm.getLine(pos.line);
+      const token = lineContent.match(MarkdownEditorBase.CHECK_LIST_PATTERN)?.[0];
+      if (!token || this.getCodeBlockLines()[pos.line]) return;
+
+      const boxStart = token.search(MarkdownEditorBase.CHECK_LIST_BOX_PATTERN);
+      if (pos.ch < boxStart || pos.ch > boxStart + 3) return;
+
+      event.preventDefault();
+      const box = token.substring(boxStart, boxStart + 3);
+      this.cm.replaceRange(
+        box === '[ ]' ? '[x]' : '[ ]',
+        { line: pos.line, ch: boxStart },
+        { line: pos.line, ch: boxStart + 3 },
+        '+toggleCheckListItemState'
+      );
+    });
+  }
+
+  /**
+   * Re-pad the columns of tables which are changed by user input, if table editing is enabled.
+   * The formatting is merged into the undo history event of the user input where possible.
+   */
+  private formatTablesOnChange() {
+    let formatting = false;
+    this.cm.on('changes', (_instance: CodeMirror.Editor, changes: CodeMirror.EditorChange[]) => {
+      if (formatting || !this.options.tableEditing) return;
+      const userChanges = changes.filter((change) =>
+        ['+input', '+delete', '*compose', 'paste', 'cut', 'drop'].includes(change.origin || '')
+      );
+      if (!userChanges.length) return;
+
+      const lineNumbers: number[] = [];
+      for (const change of userChanges) {
+        for (let i = 0; i < change.text.length; i++) lineNumbers.push(change.from.line + i);
+      }
+      const origin = userChanges[userChanges.length - 1].origin as string;
+
+      formatting = true;
+      this.editTables((_table, cells) => cells, _.uniq(lineNumbers), origin.startsWith('+') ? origin : '+editTable');
+      formatting = false;
+    });
+  }
+
+  /**
+   * Upload pasted and dropped image files via `uploadImages()`, if `options.imageUploadHandler` is specified.
+   * Pasted images are only uploaded, if the clipboard contains no text, e.g. for screenshots.
+   */
+  private uploadPastedAndDroppedImages() {
+    const getImageFiles = (files: FileList | undefined) =>
+      Array.from(files || []).filter((file) => file.type.startsWith('image/'));
+
+    this.cm.on('paste', (_instance: CodeMirror.Editor, event: ClipboardEvent) => {
+      const imageFiles = getImageFiles(event.clipboardData?.files);
+      const line = this.cm.getCursor().line;
+      if (!imageFiles.length || !this.options.imageUploadHandler || this.options.disabled) return;
+      if (event.clipboardData?.getData('text/plain') || this.getCodeBlockLines()[line]) return;
+
+      event.preventDefault();
+      this.uploadImages(imageFiles);
+    });
+
+    this.cm.on('drop', (_instance: CodeMirror.Editor, event: DragEvent) => {
+      const imageFiles = getImageFiles(event.dataTransfer?.files);
+      if (!imageFiles.length || !this.options.imageUploadHandler || this.options.disabled) return;
+
+      const pos = this.cm.coordsChar({ left: event.clientX, top: event.clientY }, 'window');
+      if (this.getCodeBlockLines()[pos.line]) return;
+
+      event.preventDefault();
+      this.uploadImages(imageFiles, pos);
+    });
+  }
+
+  /**
+   * Convert pasted content into Markdown:
+   * - tabular data, e.g. copied from a spreadsheet, into a table, if enabled by `options.convertPastedTables`
+   * - formatted HTML, e.g. copied from a web page, into the corresponding Markdown, as specified by
+   *   `options.convertPastedHtml`
+   */
+  private convertPastedContent() {
+    // Shift-Ctrl-V (Shift-Cmd-V on Mac) requests a plain text paste
+    let plainPaste = false;
+    this.cm.on('keydown', (_instance: CodeMirror.Editor, event: KeyboardEvent) => {
+      plainPaste = event.shiftKey && (event.ctrlKey || event.metaKey) && event.keyCode === 86;
+    });
+
+    this.cm.on('paste', (_instance: CodeMirror.Editor, event: ClipboardEvent) => {
+      const isPlainPaste = plainPaste;
+      plainPaste = false;
+      if (event.defaultPrevented) return;
+      const line = this.cm.getCursor().line;
+      if (this.options.disabled || this.getCodeBlockLines()[line]) return;
+
+      const text = event.clipboardData?.getData('text/plain') || '';
+      const html = event.clipboardData?.getData('text/html') || '';
+      const delimiter =
+        this.options.convertPastedTables && !isPlainPaste && !this.getTableRange(line)
+          ? detectDelimiter(text)
+          : undefined;
+      const convertHtml =
+        this.options.convertPastedHtml === 'always' ||
+        (this.options.convertPastedHtml === 'unlessShift' && !isPlainPaste);
+
+      if (delimiter) {
+        event.preventDefault();
+        const table = formatTable(createTable(parseDelimitedText(text.replace(/\r?\n$/, ''), delimiter))).join('\n');
+        this.cm.operation(() => {
+          for (const selection of this.cm.listSelections().reverse()) {
+            // Separate the table from surrounding text in the same line
+            const textBefore = this.cm.getLine(selection.from().line).substring(0, selection.from().ch);
+            const textAfter = this.cm.getLine(selection.to().line).substring(selection.to().ch);
+            const replacement = (textBefore.trim() ? '\n\n' : '') + table + (textAfter.trim() ? '\n\n' : '');
+            this.cm.replaceRange(replacement, selection.from(), selection.to(), 'paste');
+          }
+        });
+      } else if (html && convertHtml && containsFormattedHtml(html)) {
+        const markdown = htmlToMarkdown(html, { preferredTokens: this.options.preferredTokens });
+        if (!markdown) return;
+        event.preventDefault();
+        this.cm.operation(() => {
+          for (const selection of this.cm.listSelections().reverse()) {
+            this.cm.replaceRange(markdown, selection.from(), selection.to(), 'paste');
+          }
+        });
+      }
+    });
+  }
+
+  /**
+   * Update the preview after changes, delayed by `options.previewDelay`, and synchronize the preview's scroll position
+   * with the editor.
+   */
+  private synchronizePreview() {
+    this.cm.on('changes', () => {
+      if (!this.preview) return;
+      if (this.previewUpdateTimeout) clearTimeout(this.previewUpdateTimeout);
+      this.previewUpdateTimeout = setTimeout(() => {
+        this.updatePreview();
+        this.syncScrollPosition('editor');
+      }, this.options.previewDelay);
+    });
+    this.cm.on('scroll', () => this.syncScrollPosition('editor'));
+  }
+
+  /**
+   * Update the table of contents after changes, delayed by `options.contentChangeDelay`, if
+   * `options.tableOfContents.autoUpdate` is `onChange`. Undo and redo do not trigger an update, so that they
+   * are not reverted immediately.
+   */
+  private updateTableOfContentsOnChange() {
+    this.cm.on('changes', (_cm, changes) => {
+      if (this.options.tableOfContents.autoUpdate !== 'onChange') return;
+      const ignoredOrigins = ['undo', 'redo', 'updateTableOfContents'];
+      if (changes.every((change) => ignoredOrigins.includes(change.origin as string))) return;
+      if (this.tableOfContentsTimeout) clearTimeout(this.tableOfContentsTimeout);
+      this.tableOfContentsTimeout = setTimeout(() => this.updateTableOfContents(), this.options.contentChangeDelay);
+    });
+  }
+
+  /**
+   * Renumber the footnotes after edits, if `options.renumberFootnotes` is enabled, and mark the footnote warnings
+   * of `getFootnoteWarnings()` with the class `markdown-editor-footnote-warning`. Both are delayed by
+   * `options.contentChangeDelay`. Undo, redo and `setContent()` do not trigger a renumbering.
+   */
+  private maintainFootnotes() {
+    let warningMarks: CodeMirror.TextMarker[] = [];
+    let isRenumberingRequired = false;
+    this.cm.on('changes', (_cm, changes) => {
+      const ignoredOrigins = ['undo', 'redo', 'setValue', 'renumberFootnotes'];
+      if (!changes.every((change) => ignoredOrigins.includes(change.origin as string))) isRenumberingRequired = true;
+      if (this.footnotesTimeout) clearTimeout(this.footnotesTimeout);
+      this.footnotesTimeout = setTimeout(() => {
+        if (isRenumberingRequired && this.options.renumberFootnotes) {
+          this.applyEdits(renumberFootnotes(this.getContent()), 'renumberFootnotes');
+        }
+        isRenumberingRequired = false;
+
+        this.cm.operation(() => {
+          warningMarks.forEach((mark) => mark.clear());
+          warningMarks = this.getFootnoteWarnings().map((warning) =>
+            this.cm.markText(warning.from, warning.to, {
+              className: 'markdown-editor-footnote-warning',
+              title: warning.message,
+            })
+          );
+        });
+      }, this.options.contentChangeDelay);
+    });
+  }
+
+  /**
+   * Lint the content after changes, delayed by `options.contentChangeDelay`, if `options.linting.enabled` is `true`.
+   * Clicking a marker in the gutter applies the quick fixes of its line.
+   */
+  private lintOnChange() {
+    this.cm.on('changes', () => {
+      if (!this.options.linting.enabled) return;
+      if (this.lintTimeout) clearTimeout(this.lintTimeout);
+      this.lintTimeout = setTimeout(() => this.updateLintMarkers(), this.options.contentChangeDelay);
+    });
+    this.cm.on('gutterClick', (_cm, line, gutter) => {
+      if (gutter !== MarkdownEditorBase.LINT_GUTTER) return;
+      this.fixLintResults(this.getLintResults().filter((result) => result.from.line === line));
+    });
+    this.updateLintMarkers();
+  }
+
+  /**
+   * Mark the lint results with the classes `markdown-editor-lint-warning` and `markdown-editor-lint-error` and with
+   * markers in the gutter, and emit the `lint` event. Only removes the marks if linting is disabled.
+   */
+  private updateLintMarkers() {
+    const results = this.options.linting.enabled ? this.getLintResults() : [];
+    this.cm.operation(() => {
+      this.lintMarks.forEach((mark) => mark.clear());
+      this.cm.clearGutter(MarkdownEditorBase.LINT_GUTTER);
+      this.lintMarks = results.map((result) =>
+        this.cm.markText(result.from, result.to, {
+          className: `markdown-editor-lint-${result.severity}`,
+          title: result.message,
+        })
+      );
+
+      for (const [line, lineResults] of Object.entries(_.groupBy(results, (result) => result.from.line))) {
+        const severity = lineResults.some((result) => result.severity === 'error') ? 'error' : 'warning';
+        const isFixable = lineResults.some((result) => result.fix);
+        const marker = document.createElement('div');
+        marker.className = `markdown-editor-lint-marker markdown-editor-lint-marker-${severity}`;
+        marker.textContent = '●';
+        marker.title = lineResults.map((result) => `${result.message} (${result.rule})`).join('\n');
+        if (isFixable) {
+          marker.title += '\nClick to apply the quick fixes.';
+          marker.style.cursor = 'pointer';
+        }
+        this.cm.setGutterMarker(+line, MarkdownEditorBase.LINT_GUTTER, marker);
+      }
+    });
+    if (this.options.linting.enabled) this.emit('lint', results);
+  }
+
+  /**
+   * Mark misspelled words in the visible lines with the class `markdown-editor-misspelling` after changes and
+   * scrolling, delayed by `options.contentChangeDelay`.
+   */
+  private checkSpellingOnChange() {
+    const scheduleUpdate = () => {
+      if (!this.options.spellCheck.enabled) return;
+      if (this.spellCheckTimeout) clearTimeout(this.spellCheckTimeout);
+      this.spellCheckTimeout = setTimeout(() => this.updateMisspellings(), this.options.contentChangeDelay);
+    };
+    this.cm.on('changes', scheduleUpdate);
+    this.cm.on('viewportChange', scheduleUpdate);
+    this.updateMisspellings();
+  }
+
+  /**
+   * Replace the marks of misspelled words in the visible lines. Loads the ignored words first, if not done yet.
+   */
+  private updateMisspellings() {
+    if (this.options.spellCheck.enabled && !this.ignoredWordsLoaded) {
+      this.loadIgnoredWords().then(() => this.updateMisspellings());
+    }
+    const { from, to } = this.cm.getViewport();
+    this.cm.operation(() => {
+      this.misspellingMarks.forEach((mark) => mark.clear());
+      this.misspellingMarks = [];
+      for (let line = from; line < to; line++) {
+        for (const misspelling of this.findMisspellings(line)) {
+          const mark = this.cm.markText(
+            { line, ch: misspelling.from },
+            { line, ch: misspelling.to },
+            { className: 'markdown-editor-misspelling' }
+          );
+          this.misspellingMarks.push(mark);
+        }
+      }
+    });
+  }
+
+  /**
+   * Find the misspelled words of a line. Only prose is checked, i.e. tokens of the `gfm` mode which are no code,
+   * urls, link targets, HTML or emoji. Without rich-text mode, there are no tokens and thus no misspellings.
+   * @returns the words with the start and end `ch` of each word
+   */
+  private findMisspellings(line: number): { word: string; from: number; to: number }[] {
+    const { enabled, checker } = this.options.spellCheck;
+    if (!enabled || !checker || !this.options.richTextMode) return [];
+    // The labels of link reference definitions are no prose
+    if (/^ {0,3}\[(?!\^)[^\]]+\]:/.test(this.cm.getLine(line))) return [];
+    // Neither is the front matter, which is tokenized by the inner `yaml` mode
+    const { state } = this.cm.getTokenAt({ line, ch: this.cm.getLine(line).length });
+    if (CodeMirror.innerMode(this.cm.getMode(), state).mode.name === 'yaml') return [];
+
+    // Tokens are mostly single characters, so consecutive tokens of the same type are joined to find words
+    const runs: { start: number; text: string; type: string }[] = [];
+    for (const token of this.cm.getLineTokens(line)) {
+      const lastRun = runs[runs.length - 1];
+      if (lastRun && lastRun.type === (token.type || '')) lastRun.text += token.string;
+      else runs.push({ start: token.start, text: token.string, type: token.type || '' });
+    }
+
+    const ignoredWords = this.ignoredWords.map((word) => word.toLowerCase());
+    const misspellings: { word: string; from: number; to: number }[] = [];
+    for (const run of runs) {
+      const types = run.type.split(' ');
+      const isSkipped = MarkdownEditorBase.SPELL_CHECK_SKIPPED_TOKEN_TYPES.some((type) => types.includes(type));
+      // Alt texts of images are prose, although they are typed as links
+      if (isSkipped && !types.includes('image-alt-text')) continue;
+      for (const { word, from, to } of findWords(run.text)) {
+        if (ignoredWords.includes(word.toLowerCase()) || checker.check(word)) continue;
+        misspellings.push({ word, from: run.start + from, to: run.start + to });
+      }
+    }
+    return misspellings;
+  }
+
+  /**
+   * Load the ignored words from `options.spellCheck.ignoreListStorage` once. Words which have been ignored
+   * in the meantime are kept.
+   */
+  private loadIgnoredWords(): Promise<void> {
+    if (!this.ignoredWordsLoaded) {
+      const key = this.options.spellCheck.ignoreListKey;
+      this.ignoredWordsLoaded = Promise.resolve()
+        .then(() => this.getIgnoreListStorage().get(key))
+        .then((words) => {
+          this.ignoredWords = _.union(words || [], this.ignoredWords);
+        })
+        .catch((error) => console.warn('Caution: The ignored words cannot be loaded from the storage.', error));
+    }
+    return this.ignoredWordsLoaded;
+  }
+
+  /**
+   * Update the ignored words, save them after they have been loaded and update the marks of misspelled words.
+   * The update is applied again after loading, because the loaded words are merged with the current ones,
+   * which would otherwise restore a removed word.
+   * @param update a function which returns the new words for the current words
+   */
+  private updateIgnoredWords(update: (words: string[]) => string[]) {
+    this.ignoredWords = update(this.ignoredWords);
+    this.updateMisspellings();
+    const key = this.options.spellCheck.ignoreListKey;
+    this.loadIgnoredWords()
+      .then(() => {
+        const words = update(this.ignoredWords);
+        if (!_.isEqual(words, this.ignoredWords)) {
+          this.ignoredWords = words;
+          this.updateMisspellings();
+        }
+        return this.getIgnoreListStorage().set(key, this.ignoredWords);
+      })
+      .catch((error) => console.warn('Caution: The ignored words cannot be saved to the storage.', error));
+  }
+
+  /**
+   * Get the storage for ignored words as specified by `options.spellCheck.ignoreListStorage`.
+   */
+  private getIgnoreListStorage(): MarkdownEditorIgnoreListStorage {
+    const storage = this.options.spellCheck.ignoreListStorage;
+    return typeof storage === 'string' ? new LocalStorageIgnoreListStorage() : storage;
+  }
+
+  /**
+   * Update the highlights of the last query after changes, delayed by `options.contentChangeDelay`.
+   */
+  private updateSearchMarksOnChange() {
+    this.cm.on('changes', () => {
+      if (!this.search) return;
+      if (this.searchTimeout) clearTimeout(this.searchTimeout);
+      this.searchTimeout = setTimeout(() => this.updateSearchMarks(), this.options.contentChangeDelay);
+    });
+  }
+
+  /**
+   * Replace the highlights of the matches of the last query. The match which is selected gets the additional class
+   * `markdown-editor-search-match-current`.
+   */
+  private updateSearchMarks() {
+    const search = this.search;
+    if (!search) return;
+    const matches = this.getSearchMatches();
+    const from = this.cm.getCursor('from');
+    const to = this.cm.getCursor('to');
+    this.cm.operation(() => {
+      search.marks.forEach((mark) => mark.clear());
+      search.marks = matches.map((match) => {
+        const isCurrent = CodeMirror.cmpPos(match.from, from) === 0 && CodeMirror.cmpPos(match.to, to) === 0;
+        return this.cm.markText(match.from, match.to, {
+          className: `markdown-editor-search-match${isCurrent ? ' markdown-editor-search-match-current' : ''}`,
+        });
+      });
+    });
+  }
+
+  /**
+   * Find the matches of the last query in the current content. If the search is restricted to the selected text,
+   * only matches inside the ranges which have been selected at the time of the search are included.
+   */
+  private getSearchMatches(): { from: CodeMirror.Position; to: CodeMirror.Position; match: RegExpExecArray }[] {
+    if (!this.search) return [];
+    const scopes = this.search.scopes.map((scope) => scope.find()).filter((range) => range) as CodeMirror.MarkerRange[];
+    return findSearchMatches(this.getContent(), this.search.pattern)
+      .map((match) => ({
+        from: this.cm.posFromIndex(match.index),
+        to: this.cm.posFromIndex(match.index + match[0].length),
+        match,
+      }))
+      .filter(
+        ({ from, to }) =>
+          !this.search?.scopes.length ||
+          scopes.some((scope) => CodeMirror.cmpPos(scope.from, from) <= 0 && CodeMirror.cmpPos(to, scope.to) <= 0)
+      );
+  }
+
+  /**
+   * Get the text which replaces a match. Only for regular expressions, references to capture groups are expanded.
+   */
+  private getSearchReplacement(replacement: string, match: RegExpExecArray): string {
+    return this.search?.regex ? expandReplacement(replacement, match) : replacement;
+  }
+
+  /**
+   * Load the recoverable draft and save drafts at most every `options.autosaveInterval` milliseconds after changes
+   * as well as before the page is left. Content which is set via `setContent()` is not saved until it is edited.
+   */
+  private autosaveDrafts() {
+    if (this.options.autosave) {
+      this.recoverableDraft = Promise.resolve()
+        .then(() => this.getDraftStorage().get(this.options.autosaveKey))
+        .catch((error) => {
+          console.warn('Caution: The draft cannot be loaded from the storage.', error);
+          return undefined;
+        });
+    }
+
+    this.cm.on('changes', (_cm, changes) => {
+      if (!this.options.autosave || this.autosaveTimeout) return;
+      if (changes.every((change) => change.origin === 'setValue')) return;
+      this.autosaveTimeout = setTimeout(() => this.saveDraft(), this.options.autosaveInterval);
+    });
+    window.addEventListener('beforeunload', this.saveDraftBeforeUnload);
+  }
+
+  /**
+   * Save the content and the selections as draft, or remove the draft if the document is not dirty.
+   */
+  private saveDraft() {
+    if (this.autosaveTimeout) clearTimeout(this.autosaveTimeout);
+    this.autosaveTimeout = undefined;
+    const storage = this.getDraftStorage();
+    const key = this.options.autosaveKey;
+    const draft: MarkdownEditorDraft = {
+      content: this.getContent(),
+      selections: this.cm.listSelections().map(({ anchor, head }) => ({
+        anchor: { line: anchor.line, ch: anchor.ch },
+        head: { line: head.line, ch: head.ch },
+      })),
+      timestamp: Date.now(),
+    };
+    Promise.resolve()
+      .then(() => (this.isDirty() ? storage.set(key, draft) : storage.remove(key)))
+      .catch((error) => console.warn('Caution: The draft cannot be saved to the storage.', error));
+  }
+
+  /**
+   * Get the storage for drafts as specified by `options.autosaveStorage`.
+   */
+  private getDraftStorage(): MarkdownEditorDraftStorage {
+    const type = this.options.autosaveStorage;
+    if (typeof type !== 'string') return type;
+    if (this.draftStorage?.type !== type) {
+      const storage = type === 'indexedDB' ? new IndexedDbDraftStorage() : new LocalStorageDraftStorage();
+      this.draftStorage = { type, storage };
+    }
+    return this.draftStorage.storage;
+  }
+
+  /**
+   * Scroll the preview to the position corresponding to the editor's scroll position or vice versa.
+   * The position is mapped via the source lines of the preview's blocks and interpolated inside of a block.
+   * @param source the element which has been scrolled
+   */
+  private syncScrollPosition(source: 'editor' | 'preview') {
+    if (!this.preview) return;
+    // Ignore the scroll event caused by the synchronization itself
+    if (this.scrollSyncTarget === source) {
+      this.scrollSyncTarget = undefined;
+      return;
+    }
+
+    const element = this.preview.element;
+    const blocks = Array.from(element.children)
+      .filter((blockElement) => blockElement.hasAttribute('data-source-line'))
+      .map((blockElement) => ({
+        element: blockElement as HTMLElement,
+        from: +(blockElement.getAttribute('data-source-line') as string),
+        to: +(blockElement.getAttribute('data-source-end-line') as string),
+      }));
+    if (!blocks.length) return;
+
+    const scrollInfo = this.cm.getScrollInfo();
+    const getLineHeight = (line: number) =>
+      Math.max(this.cm.heightAtLine(line + 1, 'local') - this.cm.heightAtLine(line, 'local'), 1);
+    const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+    if (source === 'editor') {
+      const line = this.cm.lineAtHeight(scrollInfo.top, 'local');
+      const exactLine = line + (scrollInfo.top - this.cm.heightAtLine(line, 'local')) / getLineHeight(line);
+      const block = blocks.find((b) => exactLine < b.to + 1) || blocks[blocks.length - 1];
+      const fraction = clamp((exactLine - block.from) / (block.to + 1 - block.from), 0, 1);
+      const maxTop = element.scrollHeight - element.clientHeight;
+      const isEditorAtBottom = scrollInfo.top > 0 && scrollInfo.top + scrollInfo.clientHeight >= scrollInfo.height - 1;
+      const top = isEditorAtBottom ? maxTop : block.element.offsetTop + fraction * block.element.offsetHeight;
+
+      if (Math.abs(element.scrollTop - clamp(top, 0, maxTop)) >= 1) {
+        this.scrollSyncTarget = 'preview';
+        element.scrollTop = clamp(top, 0, maxTop);
+      }
+    } else {
+      const top = element.scrollTop;
+      const block = blocks.find((b) => top < b.element.offsetTop + b.element.offsetHeight) || blocks[blocks.length - 1];
+      const fraction = clamp((top - block.element.offsetTop) / Math.max(block.element.offsetHeight, 1), 0, 1);
+      const exactLine = block.from + fraction * (block.to + 1 - block.from);
+      const line = Math.floor(exactLine);
+      const maxTop = scrollInfo.height - scrollInfo.clientHeight;
+      const isPreviewAtBottom = top > 0 && top + element.clientHeight >= element.scrollHeight - 1;
+      const editorTop = isPreviewAtBottom
+        ? maxTop
+        : this.cm.heightAtLine(line, 'local') + (exactLine - line) * getLineHeight(line);
+
+      if (Math.abs(scrollInfo.top - clamp(editorTop, 0, maxTop)) >= 1) {
+        this.scrollSyncTarget = 'editor';
+        this.cm.scrollTo(null, clamp(editorTop, 0, maxTop));
+      }
+    }
+  }
+
+  /**
+   * Show the autocompletion popup or the slash command menu when the trigger character of a provider is typed
+   * at the start of a word, unless inside of code. The popup is navigated via arrow keys. _Esc_ closes the popup.
+   * _Enter_ and _Tab_ pick the active completion. Without query, e.g. right after typing `[`, _Enter_ and _Tab_ close
+   * the popup and keep their usual behavior instead.
+   */
+  private showCompletionsOnTrigger() {
+    this.cm.on('inputRead', (_cm, change) => {
+      if (this.cm.state.completionActive) return;
+      const typedText = change.text.join('\n');
+      const trigger = this.findCompletionTrigger();
+      if (!trigger || !typedText.endsWith(trigger.provider.trigger) || trigger.query) return;
+      if (this.hasTokenAtCursorPos('comment') || this.getCodeBlockLines()[this.cm.getCursor().line]) return;
+
+      const hint: CodeMirror.AsyncHintFunction = (_editor, callback) =>
+        this.getCompletionHints().then((hints) => callback(hints as CodeMirror.Hints));
+      hint.async = true;
+      const pickWithQuery = (_editor: CodeMirror.Editor, handle: CodeMirror.Handle) => {
+        if (this.findCompletionTrigger()?.query) return handle.pick();
+        handle.close();
+        return CodeMirror.Pass;
+      };
+      // Only brackets close the popup, whitespace is handled by `findCompletionTrigger()`
+      this.cm.showHint({
+        hint,
+        completeSingle: false,
+        closeCharacters: /[()[\]{}<>]/,
+        extraKeys: { Enter: pickWithQuery, Tab: pickWithQuery },
+      });
+    });
+  }
+
+  /**
+   * Find the trigger character in front of the cursor which starts a completion, and its provider and query.
+   * The trigger character must be at the start of a word, but not right after a list marker like `- [`, and the query
+   * must not contain spaces, unless the provider allows it. The trigger character nearest to the cursor applies.
+   */
+  private findCompletionTrigger():
+    | { provider: MarkdownEditorCompletionProvider; from: CodeMirror.Position; query: string }
+    | undefined {
+    const cursor = this.cm.getCursor();
+    const textBefore = this.cm.getLine(cursor.line).substring(0, cursor.ch);
+    let match: { provider: MarkdownEditorCompletionProvider; from: CodeMirror.Position; query: string } | undefined;
+    for (const provider of this.getCompletionProviders()) {
+      const index = textBefore.lastIndexOf(provider.trigger);
+      const query = textBefore.substring(index + provider.trigger.length);
+      if (index === -1 || (match && match.from.ch >= index)) continue;
+      const textBeforeTrigger = textBefore.substring(0, index);
+      if (!/(^|[\s(])$/.test(textBeforeTrigger) || /^\s*(>\s*)*([-+*]|\d+[.)])\s+$/.test(textBeforeTrigger)) continue;
+      if (!provider.allowSpaces && /\s/.test(query)) continue;
+      match = { provider, from: { line: cursor.line, ch: index }, query };
+    }
+    return match;
+  }
+
+  /**
+   * Get the completions for the trigger character and query in front of the cursor from the matching provider.
+   * Resolves with `undefined` if no provider matches or the provider has no completions.
+   */
+  private getCompletionHints(): Promise<CodeMirror.Hints | undefined> {
+    const trigger = this.findCompletionTrigger();
+    if (!trigger) return Promise.resolve(undefined);
+
+    const { provider, from, query } = trigger;
+    const context = { content: this.getContent(), from, headings: this.getHeadings() };
+    const to = this.cm.getCursor();
+    return Promise.resolve(provider.getCompletions(query, context))
+      .then((completions) => {
+        if (!completions.length) return undefined;
+        const list = completions.map((completion) => this.createCompletionHint(completion));
+        return { list, from, to };
+      })
+      .catch((error) => {
+        console.warn('Caution: The completions cannot be loaded.', error);
+        return undefined;
+      });
+  }
+
+  /**
+   * Create the _CodeMirror_ hint for a completion, which shows its detail right-aligned and calls its `execute()`
+   * function after its text has been inserted.
+   */
+  private createCompletionHint(completion: MarkdownEditorCompletion): CodeMirror.Hint {
+    const hint: CodeMirror.Hint = { text: completion.text, displayText: completion.displayText };
+    if (completion.className) hint.className = completion.className;
+    if (completion.detail) {
+      hint.render = (element) => {
+        const detail = document.createElement('span');
+        detail.className = 'markdown-editor-completion-detail';
+        Object.assign(detail.style, { float: 'right', marginLeft: '2em', opacity: '0.6' });
+        detail.textContent = completion.detail as string;
+        element.append(completion.displayText || completion.text, detail);
+      };
+    }
+    if (completion.execute) {
+      const execute = completion.execute;
+      hint.hint = (cm, data) => {
+        cm.replaceRange(completion.text, data.from, data.to, 'complete');
+        execute();
+      };
+    }
+    return hint;
+  }
+
+  /**
+   * Get the enabled completion providers: the custom providers followed by the slash command menu and the
+   * built-in providers.
+   */
+  private getCompletionProviders(): MarkdownEditorCompletionProvider[] {
+    const { enabled, emoji, headings, providers } = this.options.autocompletion;
+    const slashCommandProvider: MarkdownEditorCompletionProvider = {
+      trigger: '/',
+      allowSpaces: true,
+      getCompletions: (query) => this.getSlashCommandCompletions(query),
+    };
+    return [
+      ...(enabled ? providers : []),
+      ...(this.options.slashCommands.enabled ? [slashCommandProvider] : []),
+      ...(enabled && emoji ? [EMOJI_COMPLETION_PROVIDER] : []),
+      ...(enabled && headings ? [HEADING_COMPLETION_PROVIDER] : []),
+    ];
+  }
+
+  /**
+   * Get the items of the slash command menu for the query, e.g. `table 3x4`: the actions and snippets permitted by
+   * `options.slashCommands.commands` whose name, label or alias starts with the first word of the query.
+   * The rest of the query is passed to the action, e.g. the size of a table or the language of a code block.
+   */
+  private getSlashCommandCompletions(query: string): MarkdownEditorCompletion[] {
+    const [, word, args] = query.match(/^(\S*)\s*(.*)$/) as RegExpMatchArray;
+    if (/^\s/.test(query)) return [];
+    const { commands, snippets } = this.options.slashCommands;
+    const shortcuts = this.getShortcuts();
+    const items: { keys: string[]; aliases: string[]; completion: MarkdownEditorCompletion }[] = [];
+    const addItem = (name: string, label: string, aliases: string[], completion: MarkdownEditorCompletion) => {
+      if (commands !== 'all' && !commands.includes(name)) return;
+      const keys = [name, label, ...label.split(' '), ...aliases].map((key) => key.toLowerCase());
+      items.push({ keys, aliases: [name.toLowerCase(), ...aliases], completion });
+    };
+    const addAction = (name: string, label: string, aliases: string[], actionArgs: unknown[] = []) => {
+      const execute = () => this.executeAction(name, ...actionArgs);
+      addItem(name, label, aliases, { text: '', displayText: label, detail: shortcuts[name] || undefined, execute });
+    };
+
+    for (const action of BUILT_IN_ACTIONS) {
+      if (action === 'setHeadingLevel') {
+        ([1, 2, 3, 4, 5, 6] as const).forEach((level) => addAction(action, `Heading ${level}`, [`h${level}`], [level]));
+      } else if (action === 'setTableColumnAlignment') {
+        (['left', 'center', 'right', 'none'] as const).forEach((alignment) =>
+          addAction(action, `Align table column ${alignment}`, [alignment], [alignment])
+        );
+      } else {
+        const size = args.match(/^(\d+)\s*x\s*(\d+)$/i);
+        let actionArgs: unknown[] = [];
+        if (action === 'insertTable' && size) actionArgs = [+size[1], +size[2]];
+        if (['insertCodeBlock', 'goToHeading', 'convertSelectionToTable'].includes(action) && args) actionArgs = [args];
+        const aliases = MarkdownEditorBase.SLASH_COMMAND_ALIASES[action] || [];
+        addAction(action, _.upperFirst(_.lowerCase(action)), aliases, actionArgs);
+      }
+    }
+    for (const name of Object.keys(this.customActions)) {
+      addAction(name, _.upperFirst(_.lowerCase(name)), [], args ? [args] : []);
+    }
+    for (const [name, snippet] of Object.entries(snippets)) {
+      addItem(name, name, [], { text: snippet, displayText: name });
+    }
+
+    // Items with the query as name or alias come first, e.g. `insertTable` for `table`
+    const lowerCaseWord = word.toLowerCase();
+    const matches = items.filter((item) => item.keys.some((key) => key.startsWith(lowerCaseWord)));
+    return [
+      ...matches.filter((item) => item.aliases.includes(lowerCaseWord)),
+      ...matches.filter((item) => !item.aliases.includes(lowerCaseWord)),
+    ].map((item) => item.completion);
+  }
+
+  /**
+   * Wrap the methods of all built-in actions so that each call emits the `actionExecuted` event.
+   * Actions executed by another action do not emit the event on their own.
+   */
+  private emitActionEvents() {
+    let runningActions = 0;
+    for (const action of BUILT_IN_ACTIONS) {
+      const actionFn = this[action] as (...args: unknown[]) => void;
+      const wrappedActionFn = (...args: unknown[]) => {
+        runningActions++;
+        try {
+          actionFn.apply(this, args);
+        } finally {
+          runningActions--;
+        }
+        if (runningActions === 0) this.emit('actionExecuted', action, args);
+      };
+      Object.assign(this, { [action]: wrappedActionFn });
+    }
+  }
 }
 
 export class MarkdownEditor extends MarkdownEditorBase {
@@ -1045,10 +3951,14 @@ export class MarkdownEditorFromTextarea extends MarkdownEditorBase {
 
   /**
    * Remove the editor, and restore the original textarea (with the editor's current content).
+   * A pending draft is saved before.
    *
    * Shortcut for `Codemirror.EditorFromTextarea.toTextarea()`.
    */
   public toTextarea(): void {
+    this.saveDraftBeforeUnload();
+    window.removeEventListener('beforeunload', this.saveDraftBeforeUnload);
+    this.unmountPreview();
     this.cm.toTextArea();
   }
 
@@ -1068,7 +3978,7 @@ export class MarkdownEditorFromTextarea extends MarkdownEditorBase {
     if (!options) return;
 
     const opts = _.merge(this.options, options);
-    super.setOptions(opts);
+    super.setOptions(options);
     this.options = opts;
 
     if (this.saver === undefined && this.options.autoSync) {
@@ -0,0 +1,58 @@
+import { MarkdownEdit } from './markdown-links';
+import { MarkdownNode, parseMarkdown } from './markdown-renderer';
+
+/**
+ * A footnote reference `[^label]` or definition `[^label]: text` with the offsets of its source.
+ */
+export interface MarkdownFootnoteNode {
+  label: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * Find all footnote references and definitions of a Markdown document in order of appearance.
+ * @param markdown the Markdown
+ */
+export function findFootnotes(
+  markdown: string
+): { references: MarkdownFootnoteNode[]; definitions: MarkdownFootnoteNode[] } {
+  const references: MarkdownFootnoteNode[] = [];
+  const definitions: MarkdownFootnoteNode[] = [];
+  if (!markdown.includes('[^')) return { references, definitions };
+
+  const collectNodes = (node: MarkdownNode) => {
+    for (const child of node.children || []) {
+      if (child.position && (child.type === 'footnoteReference' || child.type === 'footnoteDefinition')) {
+        const footnote = { label: child.label || '', from: child.position.start.offset, to: child.position.end.offset };
+        (child.type === 'footnoteReference' ? references : definitions).push(footnote);
+      }
+      collectNodes(child);
+    }
+  };
+  collectNodes(parseMarkdown(markdown));
+  return { references, definitions };
+}
+
+/**
+ * Create the edits to renumber all footnotes with numeric labels in order of their first reference.
+ * Definitions without references are numbered afterwards. Footnotes with other labels keep them.
+ * @param markdown the Markdown
+ */
+export function renumberFootnotes(markdown: string): MarkdownEdit[] {
+  const { references, definitions } = findFootnotes(markdown);
+  const labels: string[] = [];
+  for (const footnote of [...references, ...definitions]) {
+    if (/^\d+$/.test(footnote.label) && !labels.includes(footnote.label)) labels.push(footnote.label);
+  }
+
+  const edits: MarkdownEdit[] = [];
+  for (const footnote of [...references, ...definitions]) {
+    const newLabel = `${labels.indexOf(footnote.label) + 1}`;
+    if (!/^\d+$/.test(footnote.label) || newLabel === footnote.label) continue;
+    // Only the label is replaced, e.g. `[^3]` of a definition `[^3]: text`
+    const labelEnd = markdown.indexOf(']', footnote.from) + 1;
+    edits.push({ from: footnote.from, to: labelEnd, text: `[^${newLabel}]` });
+  }
+  return edits;
+}
@@ -0,0 +1,288 @@
+import _ from 'lodash-es';
+import { MarkdownEdit } from './markdown-links';
+
+/**
+ * A parser for the YAML of the front matter, e.g. based on js-yaml.
+ */
+export interface MarkdownEditorFrontMatterParser {
+  /**
+   * Parse the YAML between the delimiters. Throws an error if the YAML is invalid.
+   */
+  parse(yaml: string): unknown;
+
+  /**
+   * Stringify the data as YAML, which is placed between the delimiters.
+   */
+  stringify(data: { [key: string]: unknown }): string;
+}
+
+/**
+ * Find the YAML front matter at the start of a Markdown document, i.e. the lines between a first line `---`
+ * and the next line `---` or `...`, like Prettier's Markdown parser does.
+ * @param markdown the Markdown
+ * @returns the YAML and the offset after the closing delimiter, or `undefined` if there is no front matter
+ */
+export function findFrontMatter(markdown: string): { yaml: string; to: number } | undefined {
+  const match = markdown.match(/^---[^\S\n]*\n(?:([\s\S]*?)\n)?(?:---|\.\.\.)[^\S\n]*(?=\n|$)/);
+  return match ? { yaml: match[1] || '', to: match[0].length } : undefined;
+}
+
+/**
+ * Create the edits which rewrite the entries of the specified top-level keys of the front matter, remove the entries
+ * of keys with the value `undefined` and append entries for new keys. All other lines, e.g. comments and the entries
+ * of other keys, are kept as they are.
+ * @param markdown the Markdown starting with front matter
+ * @param changes the changed keys and their new values
+ * @param parser the parser which stringifies the changed entries
+ */
+export function updateFrontMatterEntries(
+  markdown: string,
+  changes: { [key: string]: unknown },
+  parser: MarkdownEditorFrontMatterParser
+): MarkdownEdit[] {
+  const frontMatter = findFrontMatter(markdown);
+  if (!frontMatter) return [];
+
+  const closingDelimiterFrom = markdown.lastIndexOf('\n', frontMatter.to - 1) + 1;
+  let from = markdown.indexOf('\n') + 1;
+  const lines = markdown
+    .slice(from, closingDelimiterFrom)
+    .split('\n')
+    .slice(0, -1)
+    .map((text) => {
+      const line = { from, text };
+      from += text.length + 1;
+      return line;
+    });
+
+  // An entry ends before the next top-level key, whereby trailing blank lines and comments are not part of it
+  const entries = new Map<string, { from: number; to: number }>();
+  lines.forEach((line, i) => {
+    const entry = isTopLevelEntry(line.text) && line.text.trimEnd().match(MAPPING_ENTRY_PATTERN);
+    if (!entry) return;
+    let lastLine = line;
+    for (let j = i + 1; j < lines.length && !isTopLevelEntry(lines[j].text); j++) {
+      if (!/^\s*(#.*)?$/.test(lines[j].text)) lastLine = lines[j];
+    }
+    entries.set(String(parseScalar(entry[1])), { from: line.from, to: lastLine.from + lastLine.text.length });
+  });
+
+  const edits: MarkdownEdit[] = [];
+  let appendedText = '';
+  Object.entries(changes).forEach(([key, value]) => {
+    const entry = entries.get(key);
+    const text = value === undefined ? '' : parser.stringify({ [key]: value }).replace(/\n$/, '');
+    if (!entry) {
+      if (text) appendedText += text + '\n';
+    } else {
+      // A removed entry is removed along with its line break
+      edits.push({ from: entry.from, to: text ? entry.to : entry.to + 1, text });
+    }
+  });
+  if (appendedText) edits.push({ from: closingDelimiterFrom, to: closingDelimiterFrom, text: appendedText });
+  return edits;
+}
+
+/**
+ * The built-in parser, which supports the subset of YAML commonly used in front matter: nested mappings, block and
+ * flow sequences, block scalars (`|` and `>`), quoted and plain scalars and comments. Anchors, tags and multi-line
+ * flow collections are not supported. Comments and quoting are not preserved by `stringify()`.
+ */
+export const DEFAULT_FRONT_MATTER_PARSER: MarkdownEditorFrontMatterParser = {
+  parse: (yaml) => {
+    const lines = yaml.split('\n').map((text, i) => ({
+      number: i + 1,
+      indent: text.search(/\S|$/),
+      text: text.trimEnd(),
+      isEmpty: /^\s*(#.*)?$/.test(text),
+    }));
+    const state = { lines, index: 0 };
+    const firstLine = nextLine(state);
+    if (!firstLine) return null;
+    const value = parseBlock(state, firstLine.indent);
+    const unexpectedLine = nextLine(state);
+    if (unexpectedLine) throw createYamlError(unexpectedLine, 'Unexpected indentation.');
+    return value;
+  },
+
+  stringify: (data) => stringifyMapping(data, 0),
+};
+
+type YamlLine = { number: number; indent: number; text: string; isEmpty: boolean };
+type YamlState = { lines: YamlLine[]; index: number };
+
+const MAPPING_ENTRY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#[\]{},:-][^#]*?|-[^\s#][^#]*?)\s*:(?:\s+(.*))?$/;
+
+/**
+ * Parse the mapping or sequence whose lines start at the specified indentation.
+ */
+function parseBlock(state: YamlState, indent: number): unknown {
+  const firstLine = nextLine(state) as YamlLine;
+  if (isSequenceItem(firstLine.text.trim())) {
+    const items: unknown[] = [];
+    let line: YamlLine | undefined;
+    while ((line = nextLine(state)) && line.indent === indent && isSequenceItem(line.text.trim())) {
+      const content = line.text.slice(indent + 1).trimStart();
+      if (!content) {
+        state.index++;
+        items.push(parseNested(state, indent));
+      } else if (MAPPING_ENTRY_PATTERN.test(content) && !/^["'[{]/.test(content)) {
+        // An item like `- key: value` is a mapping whose first entry is on the line of the dash
+        const contentIndent = line.text.length - content.length;
+        state.lines[state.index] = { ...line, indent: contentIndent, text: ' '.repeat(contentIndent) + content };
+        items.push(parseBlock(state, contentIndent));
+      } else {
+        state.index++;
+        items.push(parseValue(state, content, indent, line));
+      }
+    }
+    return items;
+  }
+
+  const mapping: { [key: string]: unknown } = {};
+  let line: YamlLine | undefined;
+  while ((line = nextLine(state)) && line.indent === indent && !isSequenceItem(line.text.trim())) {
+    const entry = line.text.trim().match(MAPPING_ENTRY_PATTERN);
+    if (!entry) throw createYamlError(line, 'Expected a key followed by a colon.');
+    const key = String(parseScalar(entry[1]));
+    if (key in mapping) throw createYamlError(line, `Duplicate key "${key}".`);
+    state.index++;
+    mapping[key] =
+      entry[2] === undefined ? parseNested(state, indent, true) : parseValue(state, entry[2], indent, line);
+  }
+  return mapping;
+}
+
+/**
+ * Parse the block below a key or dash without value, which is more indented. A sequence below a key may also have
+ * the same indentation as the key.
+ */
+function parseNested(state: YamlState, indent: number, allowSequenceAtIndent = false): unknown {
+  const next = nextLine(state);
+  if (
+    next &&
+    (next.indent > indent || (allowSequenceAtIndent && next.indent === indent && isSequenceItem(next.text.trim())))
+  ) {
+    return parseBlock(state, next.indent);
+  }
+  return null;
+}
+
+/**
+ * Parse the value after a key or dash, which may be a block scalar spanning the following more indented lines.
+ */
+function parseValue(state: YamlState, value: string, indent: number, line: YamlLine): unknown {
+  const blockScalar = value.match(/^([|>])([+-]?)\s*(#.*)?$/);
+  if (!blockScalar) return parseScalar(stripComment(value), line);
+
+  // The block ends before the first line which is not indented more than the key, apart from blank lines
+  const blockLines: YamlLine[] = [];
+  let next: YamlLine | undefined;
+  while ((next = state.lines[state.index]) && (next.indent > indent || !next.text)) {
+    blockLines.push(next);
+    state.index++;
+  }
+  while (blockLines.length && !blockLines[blockLines.length - 1].text) {
+    blockLines.pop();
+    state.index--;
+  }
+  if (!blockLines.length) return '';
+  const blockIndent = Math.min(...blockLines.filter((l) => l.text).map((l) => l.indent));
+  const text = blockLines.map((l) => l.text.slice(blockIndent)).join('\n');
+  // Folded scalars join lines with a space, and one of several line breaks is removed
+  const foldedText = text.replace(/([^\n])\n(?=[^\n])/g, '$1 ').replace(/\n(\n+)/g, '$1');
+  return (blockScalar[1] === '|' ? text : foldedText) + (blockScalar[2] === '-' ? '' : '\n');
+}
+
+/**
+ * Parse a scalar or a flow sequence like `[a, b]`.
+ */
+function parseScalar(value: string, line?: YamlLine): unknown {
+  if (/^\[.*\]$/.test(value)) {
+    const content = value.slice(1, -1).trim();
+    return content
+      ? (content.match(/("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+)/g) || []).map((item) => parseScalar(item.trim(), line))
+      : [];
+  }
+  if (value === '{}') return {};
+  if (/^"(?:[^"\\]|\\.)*"$/.test(value)) return JSON.parse(value);
+  if (/^'(?:[^']|'')*'$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+  if (/^["'[{]/.test(value) && line) throw createYamlError(line, 'Unterminated or unsupported value.');
+  if (/^(|~|null|Null|NULL)$/.test(value)) return null;
+  if (/^(true|True|TRUE)$/.test(value)) return true;
+  if (/^(false|False|FALSE)$/.test(value)) return false;
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(value) && !/^[-+]?0\d/.test(value)) return Number(value);
+  return value;
+}
+
+/**
+ * Remove a comment after a value, which is separated by whitespace. Quoted values are kept as they are.
+ */
+function stripComment(value: string): string {
+  return /^["']/.test(value) ? value.replace(/\s+#[^"']*$/, '') : value.replace(/\s+#.*$/, '');
+}
+
+/**
+ * Skip blank lines and comments and get the next line with content, without consuming it.
+ */
+function nextLine(state: YamlState): YamlLine | undefined {
+  while (state.lines[state.index]?.isEmpty) state.index++;
+  return state.lines[state.index];
+}
+
+/**
+ * Returns whether the line starts an entry of the top-level mapping, i.e. it is neither indented
+ * nor blank, a comment or a sequence item.
+ */
+function isTopLevelEntry(text: string): boolean {
+  return /^[^\s#]/.test(text) && !isSequenceItem(text.trimEnd());
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function createYamlError(line: YamlLine, message: string): Error {
+  return new Error(`Invalid YAML in line ${line.number}: ${message}`);
+}
+
+function stringifyMapping(mapping: { [key: string]: unknown }, indent: number): string {
+  return Object.entries(mapping)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ' '.repeat(indent) + stringifyScalar(key) + ':' + stringifyNested(value, indent))
+    .join('\n');
+}
+
+function stringifySequence(sequence: unknown[], indent: number): string {
+  return sequence
+    .map((item) => {
+      if (_.isPlainObject(item) && !_.isEmpty(item)) {
+        // The first entry of a mapping is placed on the line of the dash
+        return ' '.repeat(indent) + '- ' + stringifyMapping(item as { [key: string]: unknown }, indent + 2).trimStart();
+      }
+      return ' '.repeat(indent) + '-' + stringifyNested(item, indent);
+    })
+    .join('\n');
+}
+
+/**
+ * Stringify the value of a key or dash, i.e. a scalar on the same line or a nested block on the next lines.
+ */
+function stringifyNested(value: unknown, indent: number): string {
+  if (Array.isArray(value) && value.length) return '\n' + stringifySequence(value, indent + 2);
+  if (_.isPlainObject(value) && !_.isEmpty(value)) {
+    return '\n' + stringifyMapping(value as { [key: string]: unknown }, indent + 2);
+  }
+  return ' ' + stringifyScalar(value);
+}
+
+function stringifyScalar(value: unknown): string {
+  if (Array.isArray(value)) return '[]';
+  if (_.isPlainObject(value)) return '{}';
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'string') return String(value);
+  // Strings are quoted if they would be parsed differently otherwise
+  const isPlain = parseScalar(value) === value && !/^\s|\s$|: |:$| #|^[-?:,[\]{}#&*!|>'"%@`]|\n/.test(value);
+  return isPlain ? value : JSON.stringify(value);
+}
@@ -0,0 +1,307 @@
+import { MarkdownNode, parseMarkdown } from './markdown-renderer';
+
+/**
+ * A link of a Markdown document with the offsets of its source.
+ */
+export interface MarkdownLink {
+  /**
+   * The form of the link: `[text](url)` (inline), `[text][id]`, `[text][]` or `[text]` (reference),
+   * or `<url>` and bare urls (autolink).
+   */
+  kind: 'inline' | 'reference' | 'autolink';
+
+  /**
+   * The Markdown source of the link text.
+   */
+  text: string;
+
+  url: string;
+  title?: string;
+
+  /**
+   * The label of the reference, only for reference links.
+   */
+  label?: string;
+
+  from: number;
+  to: number;
+}
+
+/**
+ * A link reference definition `[id]: url "title"` with the offsets of its source.
+ */
+export interface MarkdownLinkDefinition {
+  /**
+   * The normalized label, which is used to match references.
+   */
+  identifier: string;
+  label: string;
+  url: string;
+  title?: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * A replacement of the source between two offsets.
+ */
+export interface MarkdownEdit {
+  from: number;
+  to: number;
+  text: string;
+}
+
+/**
+ * A link or image reference, e.g. `[text][id]` or `![alt][id]`.
+ */
+interface MarkdownReference {
+  node: MarkdownNode;
+  identifier: string;
+  isImage: boolean;
+  text: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * Find all links and link reference definitions of a Markdown document. References without a definition
+ * are no links and therefore ignored.
+ * @param markdown the Markdown
+ */
+export function findLinks(markdown: string): { links: MarkdownLink[]; definitions: MarkdownLinkDefinition[] } {
+  const { links, definitions } = analyzeLinks(markdown);
+  return { links, definitions };
+}
+
+/**
+ * Create the edits to convert inline links into reference links. Definitions with the same url and title
+ * are reused, otherwise new definitions with numeric labels are added at the end of the document. Labels of
+ * references without definition, e.g. `[1]` of `array[1]`, are not used, because they would become links.
+ * @param markdown the Markdown
+ * @param links the links to convert, as returned by `findLinks()`. Other than inline links are ignored.
+ */
+export function convertLinksToReferences(markdown: string, links: MarkdownLink[]): MarkdownEdit[] {
+  const { definitions, references } = analyzeLinks(markdown);
+  const labels = new Set([...definitions, ...references].map((d) => d.identifier));
+  const newDefinitions: MarkdownLinkDefinition[] = [];
+  const edits: MarkdownEdit[] = [];
+  let nextNumber = 1;
+
+  for (const link of links.filter((l) => l.kind === 'inline')) {
+    let definition = [...definitions, ...newDefinitions].find(
+      (d) => d.url === link.url && (d.title || '') === (link.title || '')
+    );
+    if (!definition) {
+      while (labels.has(`${nextNumber}`)) nextNumber++;
+      const label = `${nextNumber}`;
+      labels.add(label);
+      definition = { identifier: label, label, url: link.url, title: link.title, from: 0, to: 0 };
+      newDefinitions.push(definition);
+    }
+    edits.push({ from: link.from, to: link.to, text: `[${link.text}][${definition.label}]` });
+  }
+
+  if (newDefinitions.length) {
+    // Append the definitions to existing definitions at the end of the document, or separate them by a blank line
+    const contentEnd = markdown.replace(/\s+$/, '').length;
+    const separator = !contentEnd ? '' : definitions.some((d) => d.to === contentEnd) ? '\n' : '\n\n';
+    const text = newDefinitions.map((d) => formatDefinition(d)).join('\n');
+    edits.push({ from: contentEnd, to: contentEnd, text: separator + text });
+  }
+  return edits;
+}
+
+/**
+ * Create the edits to convert reference links into inline links. Definitions which are not used anymore
+ * afterwards are removed.
+ * @param markdown the Markdown
+ * @param links the links to convert, as returned by `findLinks()`. Other than reference links are ignored.
+ */
+export function convertLinksToInline(markdown: string, links: MarkdownLink[]): MarkdownEdit[] {
+  const { definitions, references } = analyzeLinks(markdown);
+  const convertedLinks = links.filter((l) => l.kind === 'reference');
+  const edits: MarkdownEdit[] = convertedLinks.map((link) => {
+    const title = link.title ? ` "${link.title.replace(/"/g, '\\"')}"` : '';
+    return { from: link.from, to: link.to, text: `[${link.text}](${formatUrl(link.url)}${title})` };
+  });
+
+  const remainingReferences = references.filter((r) => !convertedLinks.some((l) => l.from === r.from));
+  const convertedIdentifiers = new Set(convertedLinks.map((l) => normalizeLabel(l.label || '')));
+  for (const definition of definitions) {
+    if (!convertedIdentifiers.has(definition.identifier)) continue;
+    if (remainingReferences.some((r) => r.identifier === definition.identifier)) continue;
+    edits.push(getRemovalEdit(markdown, definition));
+  }
+  return trimRemovedEnd(markdown, edits);
+}
+
+/**
+ * Create the edits to remove unused link reference definitions and to merge definitions with equal url and title.
+ * References to a merged definition are changed to the label of the first of these definitions.
+ * Of several definitions with the same label, only the first one is effective and therefore kept.
+ * @param markdown the Markdown
+ */
+export function cleanUpDefinitions(markdown: string): MarkdownEdit[] {
+  const { definitions, references } = analyzeLinks(markdown);
+  const edits: MarkdownEdit[] = [];
+  const keptDefinitions: MarkdownLinkDefinition[] = [];
+
+  for (const definition of definitions) {
+    const isDuplicateLabel = keptDefinitions.some((d) => d.identifier === definition.identifier);
+    const usages = references.filter((r) => r.identifier === definition.identifier);
+    if (isDuplicateLabel || !usages.length) {
+      edits.push(getRemovalEdit(markdown, definition));
+      continue;
+    }
+
+    const equalDefinition = keptDefinitions.find(
+      (d) => d.url === definition.url && (d.title || '') === (definition.title || '')
+    );
+    if (!equalDefinition) {
+      keptDefinitions.push(definition);
+      continue;
+    }
+    edits.push(getRemovalEdit(markdown, definition));
+    for (const reference of usages) {
+      const text = `${reference.isImage ? '!' : ''}[${reference.text}][${equalDefinition.label}]`;
+      edits.push({ from: reference.from, to: reference.to, text });
+    }
+  }
+  return trimRemovedEnd(markdown, edits);
+}
+
+/**
+ * Collect the links, definitions and all link and image references of the document.
+ */
+function analyzeLinks(
+  markdown: string
+): { links: MarkdownLink[]; definitions: MarkdownLinkDefinition[]; references: MarkdownReference[] } {
+  const definitions: MarkdownLinkDefinition[] = [];
+  const references: MarkdownReference[] = [];
+  const linkNodes: MarkdownNode[] = [];
+
+  const collectNodes = (node: MarkdownNode) => {
+    for (const child of node.children || []) {
+      if (!child.position) continue;
+      const { start, end } = child.position;
+      if (child.type === 'definition') {
+        const label = child.label || child.identifier || '';
+        const title = child.title || undefined;
+        const identifier = normalizeLabel(label);
+        definitions.push({ identifier, label, url: child.url || '', title, from: start.offset, to: end.offset });
+      } else if (child.type === 'linkReference' || child.type === 'imageReference') {
+        const isImage = child.type === 'imageReference';
+        const source = markdown.substring(start.offset, end.offset);
+        const text = getReferenceText(source, child, isImage);
+        const identifier = normalizeLabel(child.referenceType === 'full' ? child.label || '' : text);
+        references.push({ node: child, identifier, isImage, text, from: start.offset, to: end.offset });
+      }
+      if (child.type === 'link' || child.type === 'linkReference') linkNodes.push(child);
+      collectNodes(child);
+    }
+  };
+  collectNodes(parseMarkdown(markdown));
+
+  const links: MarkdownLink[] = [];
+  for (const node of linkNodes) {
+    const { start, end } = node.position as NonNullable<MarkdownNode['position']>;
+    const source = markdown.substring(start.offset, end.offset);
+    if (node.type === 'link') {
+      const kind = source.startsWith('[') ? 'inline' : 'autolink';
+      const children = node.children || [];
+      const text = children.length
+        ? markdown.substring(
+            children[0].position?.start.offset ?? start.offset,
+            children[children.length - 1].position?.end.offset ?? start.offset
+          )
+        : '';
+      links.push({
+        kind,
+        text,
+        url: node.url || '',
+        title: node.title || undefined,
+        from: start.offset,
+        to: end.offset,
+      });
+    } else {
+      const reference = references.find((r) => r.node === node) as MarkdownReference;
+      const definition = definitions.find((d) => d.identifier === reference.identifier);
+      if (!definition) continue;
+      links.push({
+        kind: 'reference',
+        text: reference.text,
+        url: definition.url,
+        title: definition.title,
+        label: node.referenceType === 'full' ? node.label || '' : reference.text,
+        from: start.offset,
+        to: end.offset,
+      });
+    }
+  }
+  return { links, definitions, references };
+}
+
+/**
+ * Get the source of the text of a reference, e.g. `text` of `[text][id]`, `[text][]` and `[text]`.
+ */
+function getReferenceText(source: string, node: MarkdownNode, isImage: boolean): string {
+  const start = isImage ? 2 : 1;
+  switch (node.referenceType) {
+    case 'full':
+      return source.substring(start, source.lastIndexOf(']['));
+    case 'collapsed':
+      return source.substring(start, source.length - 3);
+    default:
+      return source.substring(start, source.length - 1);
+  }
+}
+
+/**
+ * Normalize a label for matching references and definitions, which is case-insensitive and ignores whitespace.
+ */
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Format a url for a link or definition, enclosed in angle brackets if it contains whitespace or parentheses.
+ * Angle brackets of the url are percent-encoded, because not all parsers support escaping them.
+ * @param url the url, e.g. `https://example.com/a b`
+ */
+export function formatUrl(url: string): string {
+  const encodedUrl = url.replace(/</g, '%3C').replace(/>/g, '%3E');
+  return !url || /[\s()]/.test(url) ? `<${encodedUrl}>` : encodedUrl;
+}
+
+function formatDefinition(definition: MarkdownLinkDefinition): string {
+  const title = definition.title ? ` "${definition.title.replace(/"/g, '\\"')}"` : '';
+  return `[${definition.label}]: ${formatUrl(definition.url)}${title}`;
+}
+
+/**
+ * Merge the removals of the definitions at the end of the document, extended to the blank lines before them,
+ * so that no blank lines are left at the end. A final line break is kept.
+ */
+function trimRemovedEnd(markdown: string, edits: MarkdownEdit[]): MarkdownEdit[] {
+  const removals = edits.filter((edit) => !edit.text).sort((a, b) => b.from - a.from);
+  let contentEnd = markdown.replace(/\s+$/, '').length;
+  const trailingRemovals: MarkdownEdit[] = [];
+  for (const removal of removals) {
+    if (removal.to < contentEnd) break;
+    trailingRemovals.push(removal);
+    contentEnd = markdown.substring(0, removal.from).replace(/\s+$/, '').length;
+  }
+  if (!trailingRemovals.length) return edits;
+
+  const text = contentEnd && markdown.endsWith('\n') ? '\n' : '';
+  return [...edits.filter((edit) => !trailingRemovals.includes(edit)), { from: contentEnd, to: markdown.length, text }];
+}
+
+/**
+ * Get the edit to remove the line(s) of a definition including the line break.
+ */
+function getRemovalEdit(markdown: string, definition: MarkdownLinkDefinition): MarkdownEdit {
+  const from = markdown.lastIndexOf('\n', definition.from - 1) + 1;
+  const lineEnd = markdown.indexOf('\n', definition.to);
+  return { from, to: lineEnd === -1 ? markdown.length : lineEnd + 1, text: '' };
+}
@@ -0,0 +1,193 @@
+import { MarkdownEdit } from './markdown-links';
+import { createSlug, getPlainText, MarkdownNode, parseMarkdown } from './markdown-renderer';
+
+/**
+ * An issue found by a lint rule, with the offsets of its source in the content.
+ */
+export interface MarkdownEditorLintIssue {
+  message: string;
+  from: number;
+  to: number;
+
+  /**
+   * The edit which resolves the issue, if it can be fixed automatically.
+   */
+  fix?: MarkdownEdit;
+}
+
+/**
+ * The document passed to a lint rule.
+ */
+export interface MarkdownEditorLintContext {
+  /**
+   * The content of the editor.
+   */
+  markdown: string;
+
+  /**
+   * The syntax tree (mdast) of the content, whose nodes contain the offsets of their source.
+   */
+  tree: MarkdownNode;
+
+  /**
+   * The preferred tokens as specified in `options.preferredTokens`.
+   */
+  preferredTokens: { unorderedList: '-' | '*'; checkList: '-' | '*' };
+}
+
+/**
+ * A function checking the document for issues of one kind.
+ */
+export type MarkdownEditorLintRule = (context: MarkdownEditorLintContext) => MarkdownEditorLintIssue[];
+
+/**
+ * The built-in lint rules, named after the corresponding rules of markdownlint.
+ */
+export const BUILT_IN_LINT_RULES: { [name: string]: MarkdownEditorLintRule } = {
+  'heading-increment': ({ markdown, tree }) => {
+    const issues: MarkdownEditorLintIssue[] = [];
+    let previousLevel = 0;
+    for (const heading of findNodes(tree, 'heading')) {
+      const level = heading.depth as number;
+      if (previousLevel && level > previousLevel + 1) {
+        const { from, to } = getOffsets(heading);
+        const hashes = markdown.substring(from, to).match(/^\s*(#+)/);
+        const hashesFrom = hashes ? from + hashes[0].length - hashes[1].length : from;
+        issues.push({
+          message: `Heading levels should only increment by one level at a time: expected h${previousLevel + 1}.`,
+          from,
+          to,
+          fix: hashes
+            ? { from: hashesFrom, to: from + hashes[0].length, text: '#'.repeat(previousLevel + 1) }
+            : undefined,
+        });
+      }
+      previousLevel = level;
+    }
+    return issues;
+  },
+
+  'no-trailing-spaces': ({ markdown, tree }) => {
+    const issues: MarkdownEditorLintIssue[] = [];
+    const lines = markdown.split('\n');
+    // Spaces in code blocks are content, and the end of a heading cannot have a hard line break
+    const codeLines = new Set<number>();
+    for (const code of findNodes(tree, 'code')) {
+      const { start, end } = code.position as NonNullable<MarkdownNode['position']>;
+      for (let line = start.line - 1; line < end.line; line++) codeLines.add(line);
+    }
+    const headingEndLines = new Set<number>();
+    for (const heading of findNodes(tree, 'heading')) {
+      const { start, end } = heading.position as NonNullable<MarkdownNode['position']>;
+      // Setext headings end with the underline, which follows the last line of text
+      headingEndLines.add(end.line - 1);
+      if (end.line > start.line) headingEndLines.add(end.line - 2);
+    }
+
+    let offset = 0;
+    lines.forEach((line, i) => {
+      const trailing = codeLines.has(i) ? null : line.match(/[ \t]+$/);
+      // Two spaces at the end of a line, which is followed by another line, are a hard line break
+      const isLineBreak = trailing?.[0] === '  ' && line.trim() && lines[i + 1]?.trim() && !headingEndLines.has(i);
+      if (trailing && !isLineBreak) {
+        const from = offset + line.length - trailing[0].length;
+        const to = offset + line.length;
+        issues.push({ message: 'Trailing spaces.', from, to, fix: { from, to, text: '' } });
+      }
+      offset += line.length + 1;
+    });
+    return issues;
+  },
+
+  'ul-style': ({ markdown, tree, preferredTokens }) => {
+    const issues: MarkdownEditorLintIssue[] = [];
+    for (const list of findNodes(tree, 'list')) {
+      if (list.ordered) continue;
+      for (const item of list.children || []) {
+        const { from } = getOffsets(item);
+        const marker = markdown[from];
+        const preferred = typeof item.checked === 'boolean' ? preferredTokens.checkList : preferredTokens.unorderedList;
+        if (marker === preferred) continue;
+        issues.push({
+          message: `Unordered list style: expected "${preferred}", found "${marker}".`,
+          from,
+          to: from + 1,
+          fix: { from, to: from + 1, text: preferred },
+        });
+      }
+    }
+    return issues;
+  },
+
+  'no-bare-urls': ({ markdown, tree }) =>
+    findNodes(tree, 'link')
+      .map((link) => getOffsets(link))
+      .filter(({ from }) => !['[', '<'].includes(markdown[from]))
+      .map(({ from, to }) => ({
+        message: 'Bare URL used: enclose it in angle brackets or use a link.',
+        from,
+        to,
+        fix: { from, to, text: `<${markdown.substring(from, to)}>` },
+      })),
+
+  'no-alt-text': ({ tree }) =>
+    [...findNodes(tree, 'image'), ...findNodes(tree, 'imageReference')]
+      .filter((image) => !image.alt?.trim())
+      .map((image) => ({ message: 'Images should have alternate text (alt text).', ...getOffsets(image) })),
+
+  'single-h1': ({ tree }) =>
+    findNodes(tree, 'heading')
+      .filter((heading) => heading.depth === 1)
+      .slice(1)
+      .map((heading) => ({ message: 'Multiple top-level headings in the same document.', ...getOffsets(heading) })),
+
+  'no-duplicate-heading': ({ tree }) => {
+    const slugs: string[] = [];
+    const issues: MarkdownEditorLintIssue[] = [];
+    for (const heading of findNodes(tree, 'heading')) {
+      const slug = createSlug(getPlainText(heading));
+      if (slugs.includes(slug)) {
+        issues.push({ message: `Multiple headings with the same anchor "#${slug}".`, ...getOffsets(heading) });
+      }
+      slugs.push(slug);
+    }
+    return issues;
+  },
+};
+
+/**
+ * Check a Markdown document with the specified rules.
+ * @param markdown the Markdown
+ * @param rules the rules by name
+ * @param preferredTokens the preferred tokens for lists, as specified in `options.preferredTokens`
+ * @returns the issues of all rules with the name of the rule, ordered by position
+ */
+export function lintMarkdown(
+  markdown: string,
+  rules: { [name: string]: MarkdownEditorLintRule },
+  preferredTokens: MarkdownEditorLintContext['preferredTokens']
+): (MarkdownEditorLintIssue & { rule: string })[] {
+  const context = { markdown, tree: parseMarkdown(markdown), preferredTokens };
+  const issues: (MarkdownEditorLintIssue & { rule: string })[] = [];
+  for (const [rule, check] of Object.entries(rules)) {
+    issues.push(...check(context).map((issue) => ({ ...issue, rule })));
+  }
+  return issues.sort((a, b) => a.from - b.from || a.to - b.to);
+}
+
+/**
+ * Find all nodes of the specified type in order of appearance.
+ */
+function findNodes(node: MarkdownNode, type: string): MarkdownNode[] {
+  const nodes: MarkdownNode[] = [];
+  for (const child of node.children || []) {
+    if (child.type === type && child.position) nodes.push(child);
+    nodes.push(...findNodes(child, type));
+  }
+  return nodes;
+}
+
+function getOffsets(node: MarkdownNode): { from: number; to: number } {
+  const { start, end } = node.position as NonNullable<MarkdownNode['position']>;
+  return { from: start.offset, to: end.offset };
+}
@@ -0,0 +1,563 @@
+import { ParserOptions } from 'prettier';
+import parserMarkdown from 'prettier/parser-markdown';
+
+/**
+ * Options to configure `renderMarkdown()` and `mde.renderHtml()`.
+ */
+export interface MarkdownRenderOptions {
+  /**
+   * Specifies whether the resulting HTML is sanitized, i.e. all elements, attributes and url schemes
+   * which are not allowed are removed. Applies to raw HTML in the Markdown as well as to the output of the hooks.
+   * Default is `true`.
+   */
+  sanitize?: boolean;
+
+  /**
+   * The HTML elements (lower case tag names) which are kept during sanitization.
+   * The content of other elements is kept without the element itself, except for elements like `<script>`.
+   * Defaults to `DEFAULT_ALLOWED_TAGS`.
+   */
+  allowedTags?: string[];
+
+  /**
+   * The attributes which are kept during sanitization per tag name. Attributes listed for `*` are allowed for all tags.
+   * Defaults to `DEFAULT_ALLOWED_ATTRIBUTES`.
+   */
+  allowedAttributes?: { [tagName: string]: string[] };
+
+  /**
+   * The url schemes which are kept in `href` and `src` attributes during sanitization. Relative urls are always kept.
+   * Defaults to `DEFAULT_ALLOWED_URL_SCHEMES`.
+   */
+  allowedUrlSchemes?: string[];
+
+  /**
+   * Hook to customize the rendering of links. Returns the HTML of the link, or `undefined` for the default rendering.
+   * @param href the url of the link
+   * @param title the title of the link, if specified
+   * @param content the rendered HTML of the link text
+   */
+  renderLink?: (href: string, title: string | undefined, content: string) => string | undefined;
+
+  /**
+   * Hook to customize the rendering of images. Returns the HTML of the image, or `undefined` for the default rendering.
+   * @param src the url of the image
+   * @param alt the alternative text of the image
+   * @param title the title of the image, if specified
+   */
+  renderImage?: (src: string, alt: string, title: string | undefined) => string | undefined;
+
+  /**
+   * Hook to customize the rendering of code blocks, e.g. to apply syntax highlighting. Returns the HTML
+   * of the code block, or `undefined` for the default rendering.
+   * @param code the content of the code block
+   * @param language the language specified after the opening fence, if any
+   */
+  renderCodeBlock?: (code: string, language: string | undefined) => string | undefined;
+}
+
+/**
+ * HTML elements which are kept by default during sanitization.
+ */
+export const DEFAULT_ALLOWED_TAGS = [
+  'a',
+  'abbr',
+  'b',
+  'blockquote',
+  'br',
+  'code',
+  'dd',
+  'del',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'em',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'i',
+  'img',
+  'input',
+  'ins',
+  'kbd',
+  'li',
+  'mark',
+  'ol',
+  'p',
+  'pre',
+  's',
+  'section',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'summary',
+  'sup',
+  'table',
+  'tbody',
+  'td',
+  'th',
+  'thead',
+  'tr',
+  'u',
+  'ul',
+];
+
+/**
+ * Attributes which are kept by default during sanitization per tag name (`*` for all tags).
+ */
+export const DEFAULT_ALLOWED_ATTRIBUTES: { [tagName: string]: string[] } = {
+  '*': ['class', 'title'],
+  a: ['href', 'id'],
+  h1: ['id'],
+  h2: ['id'],
+  h3: ['id'],
+  h4: ['id'],
+  h5: ['id'],
+  h6: ['id'],
+  img: ['src', 'alt', 'width', 'height'],
+  input: ['type', 'checked', 'disabled'],
+  li: ['id'],
+  ol: ['start'],
+  td: ['align'],
+  th: ['align'],
+};
+
+/**
+ * Url schemes which are kept by default during sanitization.
+ */
+export const DEFAULT_ALLOWED_URL_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+
+/**
+ * Elements which are removed including their content during sanitization, if they are not allowed.
+ */
+const REMOVED_TAGS = ['iframe', 'noscript', 'object', 'embed', 'script', 'style', 'template', 'textarea', 'title'];
+
+/**
+ * The styles which are embedded into documents created by `renderHtmlDocument()`.
+ */
+const DOCUMENT_STYLES = `body {
+  max-width: 800px;
+  margin: 0 auto;
+  padding: 32px 16px;
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;
+  font-size: 16px;
+  line-height: 1.5;
+  color: #24292e;
+}
+h1, h2 { padding-bottom: 0.3em; border-bottom: 1px solid #eaecef; }
+a { color: #0366d6; }
+img { max-width: 100%; }
+code, pre { font-family: SFMono-Regular, Consolas, 'Liberation Mono', Menlo, monospace; font-size: 85%; }
+code { padding: 0.2em 0.4em; background-color: rgba(27, 31, 35, 0.05); border-radius: 3px; }
+pre { padding: 16px; overflow: auto; background-color: #f6f8fa; border-radius: 3px; }
+pre code { padding: 0; background-color: transparent; font-size: 100%; }
+blockquote { margin: 0; padding: 0 1em; color: #6a737d; border-left: 0.25em solid #dfe2e5; }
+table { border-collapse: collapse; }
+th, td { padding: 6px 13px; border: 1px solid #dfe2e5; }
+hr { height: 0.25em; margin: 24px 0; background-color: #e1e4e8; border: 0; }
+.task-list-item { list-style-type: none; }
+.footnotes { font-size: 85%; color: #6a737d; border-top: 1px solid #eaecef; }`;
+
+/**
+ * A node of the Markdown syntax tree (mdast) as returned by Prettier's Markdown parser.
+ */
+export interface MarkdownNode {
+  type: string;
+  children?: MarkdownNode[];
+  value?: string;
+  depth?: number;
+  ordered?: boolean;
+  start?: number | null;
+  spread?: boolean;
+  checked?: boolean | null;
+  lang?: string | null;
+  url?: string;
+  title?: string | null;
+  alt?: string | null;
+  align?: (string | null)[];
+  identifier?: string;
+  label?: string;
+  referenceType?: 'shortcut' | 'collapsed' | 'full';
+  position?: { start: { line: number; offset: number }; end: { line: number; offset: number } };
+}
+
+/**
+ * The state of one rendering process.
+ */
+interface RenderContext {
+  markdown: string;
+  options: MarkdownRenderOptions;
+  definitions: { [identifier: string]: MarkdownNode };
+  footnotes: string[];
+  slugs: { [slug: string]: number };
+}
+
+/**
+ * Render Markdown to GFM-compatible HTML. Supports tables, task lists, strikethrough, autolinks and footnotes.
+ * @param markdown the Markdown
+ * @param options options to configure the rendering
+ * @returns the HTML
+ */
+export function renderMarkdown(markdown: string, options: MarkdownRenderOptions = {}): string {
+  const html = renderMarkdownBlocks(markdown, options)
+    .map((block) => block.html)
+    .join('\n');
+  return options.sanitize === false ? html : sanitizeHtml(html, options);
+}
+
+/**
+ * Render each top-level block of the Markdown to **unsanitized** HTML, together with the range of source lines
+ * of the block. The footnotes of the document form a last block without source lines.
+ * @param markdown the Markdown
+ * @param options options to configure the rendering (except for sanitization)
+ * @returns the rendered blocks with their first and last source line (zero-based)
+ */
+export function renderMarkdownBlocks(
+  markdown: string,
+  options: MarkdownRenderOptions = {}
+): { html: string; from?: number; to?: number }[] {
+  const root = parseMarkdown(markdown);
+  const context: RenderContext = { markdown, options, definitions: {}, footnotes: [], slugs: {} };
+  collectDefinitions(root, context);
+
+  const blocks: { html: string; from?: number; to?: number }[] = (root.children || [])
+    .map((node) => ({
+      html: renderBlock(node, context),
+      from: node.position && node.position.start.line - 1,
+      to: node.position && node.position.end.line - 1,
+    }))
+    .filter((block) => block.html);
+
+  const footnoteDefinitions = context.footnotes
+    .map((identifier, i) => {
+      const definition = context.definitions['^' + identifier];
+      const backReference = ` <a href="#fnref-${i + 1}" class="footnote-backref">↩</a>`;
+      return `<li id="fn-${i + 1}">\n${renderBlocks(definition.children || [], context)}${backReference}\n</li>`;
+    })
+    .join('\n');
+  if (footnoteDefinitions) {
+    blocks.push({ html: `<section class="footnotes">\n<ol>\n${footnoteDefinitions}\n</ol>\n</section>` });
+  }
+  return blocks;
+}
+
+/**
+ * Render Markdown to a self-contained HTML document with embedded styles. The title of the document is
+ * the text of the first heading.
+ * @param markdown the Markdown
+ * @param options options to configure the rendering
+ * @returns the HTML document
+ */
+export function renderHtmlDocument(markdown: string, options: MarkdownRenderOptions = {}): string {
+  const heading = (parseMarkdown(markdown).children || []).find((node) => node.type === 'heading');
+  const title = heading ? getPlainText(heading).trim() : '';
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${DOCUMENT_STYLES}
+</style>
+</head>
+<body>
+${renderMarkdown(markdown, options)}
+</body>
+</html>
+`;
+}
+
+/**
+ * Convert Markdown to plain text by stripping all markup. Blocks are separated by blank lines,
+ * list items and table rows by line breaks and table cells by tabs.
+ * @param markdown the Markdown
+ * @returns the plain text
+ */
+export function markdownToPlainText(markdown: string): string {
+  return getPlainTextOfBlocks(parseMarkdown(markdown).children || [], '\n\n');
+}
+
+/**
+ * Create a GitHub-style anchor slug of a heading text, e.g. `hello-world` for "Hello, World!".
+ * @param text the plain text of the heading
+ * @param slugs the slugs created so far for the document, to append `-1`, `-2`, etc. to duplicates
+ */
+export function createSlug(text: string, slugs: { [slug: string]: number } = {}): string {
+  const slug = text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+  const count = slugs[slug];
+  slugs[slug] = (count || 0) + 1;
+  return count ? `${slug}-${count}` : slug;
+}
+
+/**
+ * Parse Markdown into a syntax tree with Prettier's Markdown parser, which supports GFM.
+ * @param markdown the Markdown
+ */
+export function parseMarkdown(markdown: string): MarkdownNode {
+  return parserMarkdown.parsers.markdown.parse(markdown, {}, {} as ParserOptions);
+}
+
+function collectDefinitions(node: MarkdownNode, context: RenderContext) {
+  for (const child of node.children || []) {
+    if (child.type === 'definition') {
+      const identifier = (child.identifier || '').toLowerCase();
+      if (!context.definitions[identifier]) context.definitions[identifier] = child;
+    } else if (child.type === 'footnoteDefinition') {
+      context.definitions['^' + (child.identifier || '').toLowerCase()] = child;
+    } else {
+      collectDefinitions(child, context);
+    }
+  }
+}
+
+function renderBlocks(nodes: MarkdownNode[], context: RenderContext, tight = false): string {
+  return nodes
+    .map((node) => (tight && node.type === 'paragraph' ? renderInline(node, context) : renderBlock(node, context)))
+    .filter((html) => html)
+    .join('\n');
+}
+
+function renderBlock(node: MarkdownNode, context: RenderContext): string {
+  switch (node.type) {
+    case 'paragraph':
+      return `<p>${renderInline(node, context)}</p>`;
+    case 'heading': {
+      const id = createSlug(getPlainText(node), context.slugs);
+      return `<h${node.depth} id="${escapeHtml(id)}">${renderInline(node, context)}</h${node.depth}>`;
+    }
+    case 'thematicBreak':
+      return '<hr>';
+    case 'blockquote':
+      return `<blockquote>\n${renderBlocks(node.children || [], context)}\n</blockquote>`;
+    case 'list': {
+      const items = node.children || [];
+      const tight = !node.spread && !items.some((item) => item.spread);
+      const start = node.ordered && node.start !== null && node.start !== 1 ? ` start="${node.start}"` : '';
+      const tag = node.ordered ? 'ol' : 'ul';
+      return `<${tag}${start}>\n${items.map((item) => renderListItem(item, context, tight)).join('\n')}\n</${tag}>`;
+    }
+    case 'code': {
+      const code = node.value || '';
+      const language = node.lang || undefined;
+      const customHtml = context.options.renderCodeBlock?.(code, language);
+      if (customHtml !== undefined) return customHtml;
+      const languageClass = language ? ` class="language-${escapeHtml(language)}"` : '';
+      return `<pre><code${languageClass}>${escapeHtml(code)}${code ? '\n' : ''}</code></pre>`;
+    }
+    case 'html':
+      return node.value || '';
+    case 'table':
+      return renderTable(node, context);
+    case 'definition':
+    case 'footnoteDefinition':
+    case 'front-matter':
+      return '';
+    default:
+      return `<p>${renderInline(node, context)}</p>`;
+  }
+}
+
+function renderListItem(item: MarkdownNode, context: RenderContext, tight: boolean): string {
+  let content = renderBlocks(item.children || [], context, tight);
+  let attributes = '';
+  if (typeof item.checked === 'boolean') {
+    attributes = ' class="task-list-item"';
+    const checkbox = `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+    content = content.startsWith('<p>') ? '<p>' + checkbox + content.substring(3) : checkbox + content;
+  }
+  return `<li${attributes}>${content}</li>`;
+}
+
+function renderTable(table: MarkdownNode, context: RenderContext): string {
+  const [headerRow, ...bodyRows] = table.children || [];
+  const renderRow = (row: MarkdownNode, tag: 'th' | 'td') => {
+    const cells = (row.children || []).map((cell, column) => {
+      const align = table.align?.[column];
+      return `<${tag}${align ? ` align="${align}"` : ''}>${renderInline(cell, context)}</${tag}>`;
+    });
+    return `<tr>\n${cells.join('\n')}\n</tr>`;
+  };
+
+  let html = `<table>\n<thead>\n${renderRow(headerRow, 'th')}\n</thead>`;
+  if (bodyRows.length) html += `\n<tbody>\n${bodyRows.map((row) => renderRow(row, 'td')).join('\n')}\n</tbody>`;
+  return html + '\n</table>';
+}
+
+function renderInline(node: MarkdownNode, context: RenderContext): string {
+  return (node.children || []).map((child) => renderInlineNode(child, context)).join('');
+}
+
+function renderInlineNode(node: MarkdownNode, context: RenderContext): string {
+  switch (node.type) {
+    case 'text':
+      return escapeHtml(node.value || '');
+    case 'emphasis':
+      return `<em>${renderInline(node, context)}</em>`;
+    case 'strong':
+      return `<strong>${renderInline(node, context)}</strong>`;
+    case 'delete':
+      return `<del>${renderInline(node, context)}</del>`;
+    case 'inlineCode':
+      return `<code>${escapeHtml(node.value || '')}</code>`;
+    case 'break':
+      return '<br>\n';
+    case 'html':
+      return node.value || '';
+    case 'link':
+      return renderLink(node.url || '', node.title || undefined, renderInline(node, context), context);
+    case 'image':
+      return renderImage(node.url || '', node.alt || '', node.title || undefined, context);
+    case 'linkReference':
+    case 'imageReference': {
+      const definition = context.definitions[(node.identifier || '').toLowerCase()];
+      if (!definition) return escapeHtml(getSource(node, context));
+      const title = definition.title || undefined;
+      return node.type === 'linkReference'
+        ? renderLink(definition.url || '', title, renderInline(node, context), context)
+        : renderImage(definition.url || '', node.alt || '', title, context);
+    }
+    case 'footnoteReference': {
+      const identifier = (node.identifier || '').toLowerCase();
+      if (!context.definitions['^' + identifier]) return escapeHtml(getSource(node, context));
+      let number = context.footnotes.indexOf(identifier) + 1;
+      if (!number) number = context.footnotes.push(identifier);
+      return `<sup><a href="#fn-${number}" id="fnref-${number}" class="footnote-ref">${number}</a></sup>`;
+    }
+    default:
+      // Syntax which is not part of GFM, e.g. math, is rendered as written
+      return escapeHtml(getSource(node, context));
+  }
+}
+
+function renderLink(href: string, title: string | undefined, content: string, context: RenderContext): string {
+  const customHtml = context.options.renderLink?.(href, title, content);
+  if (customHtml !== undefined) return customHtml;
+  const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+  return `<a href="${escapeHtml(href)}"${titleAttribute}>${content}</a>`;
+}
+
+function renderImage(src: string, alt: string, title: string | undefined, context: RenderContext): string {
+  const customHtml = context.options.renderImage?.(src, alt, title);
+  if (customHtml !== undefined) return customHtml;
+  const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+  return `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}"${titleAttribute}>`;
+}
+
+/**
+ * Get the plain text of a node, e.g. of a heading for its slug.
+ * @param node the node of the syntax tree
+ */
+export function getPlainText(node: MarkdownNode): string {
+  if (node.type === 'text' || node.type === 'inlineCode') return node.value || '';
+  if (node.type === 'image') return node.alt || '';
+  if (node.type === 'break') return '\n';
+  return (node.children || []).map((child) => getPlainText(child)).join('');
+}
+
+function getPlainTextOfBlocks(nodes: MarkdownNode[], separator: string): string {
+  return nodes
+    .map((node) => getPlainTextOfBlock(node))
+    .filter((text) => text)
+    .join(separator);
+}
+
+function getPlainTextOfBlock(node: MarkdownNode): string {
+  switch (node.type) {
+    case 'code':
+      return node.value || '';
+    case 'html':
+      return (node.value || '').replace(/<[^>]*>/g, '').trim();
+    case 'blockquote':
+      return getPlainTextOfBlocks(node.children || [], '\n\n');
+    case 'list':
+    case 'listItem':
+      return getPlainTextOfBlocks(node.children || [], '\n');
+    case 'table':
+      return (node.children || [])
+        .map((row) => (row.children || []).map((cell) => getPlainText(cell)).join('\t'))
+        .join('\n');
+    case 'thematicBreak':
+    case 'definition':
+    case 'footnoteDefinition':
+    case 'front-matter':
+      return '';
+    default:
+      return getPlainText(node).trim();
+  }
+}
+
+/**
+ * Get the Markdown source of a node.
+ */
+function getSource(node: MarkdownNode, context: RenderContext): string {
+  if (!node.position) return node.value || '';
+  return context.markdown.substring(node.position.start.offset, node.position.end.offset);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Remove all elements, attributes and urls from the HTML, which are not allowed by the options.
+ * @param html the HTML
+ * @param options the render options
+ * @returns the sanitized HTML
+ */
+export function sanitizeHtml(html: string, options: MarkdownRenderOptions = {}): string {
+  const allowedTags = options.allowedTags || DEFAULT_ALLOWED_TAGS;
+  const allowedAttributes = options.allowedAttributes || DEFAULT_ALLOWED_ATTRIBUTES;
+  const allowedUrlSchemes = options.allowedUrlSchemes || DEFAULT_ALLOWED_URL_SCHEMES;
+
+  const isAllowedUrl = (url: string) => {
+    // Browsers ignore whitespace and control characters in schemes, e.g. in `java\tscript:`
+    const scheme = Array.from(url)
+      .filter((char) => char > ' ')
+      .join('')
+      .match(/^([a-z][a-z0-9+.-]*):/i)?.[1];
+    return !scheme || allowedUrlSchemes.includes(scheme.toLowerCase());
+  };
+
+  const sanitizeNode = (node: Node) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === Node.COMMENT_NODE) {
+        child.remove();
+      } else if (child instanceof Element) {
+        const tagName = child.tagName.toLowerCase();
+        if (!allowedTags.includes(tagName)) {
+          if (!REMOVED_TAGS.includes(tagName)) {
+            sanitizeNode(child);
+            child.replaceWith(...Array.from(child.childNodes));
+          } else {
+            child.remove();
+          }
+          continue;
+        }
+
+        for (const attribute of Array.from(child.attributes)) {
+          const name = attribute.name.toLowerCase();
+          const isAllowed = [...(allowedAttributes['*'] || []), ...(allowedAttributes[tagName] || [])].includes(name);
+          if (!isAllowed || (['href', 'src'].includes(name) && !isAllowedUrl(attribute.value))) {
+            child.removeAttribute(attribute.name);
+          }
+        }
+        sanitizeNode(child);
+      }
+    }
+  };
+
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  sanitizeNode(body);
+  return body.innerHTML;
+}
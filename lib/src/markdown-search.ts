@@ -0,0 +1,56 @@
+import _ from 'lodash-es';
+import { MarkdownEditorSearchOptions } from './markdown-editor-types';
+
+/**
+ * Create the global regular expression which finds the query in the content.
+ * @param query the text to find, or the source of a regular expression if `options.regex` is `true`
+ * @param options the search options
+ * @throws a `SyntaxError` if `query` is no valid regular expression
+ */
+export function createSearchPattern(query: string, options: MarkdownEditorSearchOptions = {}): RegExp {
+  let source = options.regex ? query : _.escapeRegExp(query);
+  // Unicode property escapes need the `u` flag, which is only set for whole words, because it rejects
+  // some escapes in regular expressions which are valid otherwise, e.g. `\-`
+  if (options.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  return new RegExp(source, `gm${options.caseSensitive ? '' : 'i'}${options.wholeWord ? 'u' : ''}`);
+}
+
+/**
+ * Find all non-empty matches of the pattern in the text.
+ * @param text the text, e.g. the content of the editor
+ * @param pattern a global regular expression as returned by `createSearchPattern()`
+ */
+export function findSearchMatches(text: string, pattern: RegExp): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    // Empty matches, e.g. of `^`, cannot be selected and would never advance the search
+    if (!match[0]) {
+      pattern.lastIndex++;
+      continue;
+    }
+    matches.push(match);
+  }
+  return matches;
+}
+
+/**
+ * Expand the references to capture groups in the replacement like `String.prototype.replace()` does:
+ * `$1` to `$99`, `$<name>`, `$&` for the whole match and `$$` for a dollar sign.
+ * @param replacement the replacement, e.g. `$2, $1`
+ * @param match the match of the pattern
+ */
+export function expandReplacement(replacement: string, match: RegExpExecArray): string {
+  const getGroup = (index: number) => (index > 0 && index < match.length ? match[index] ?? '' : undefined);
+  return replacement.replace(/\$(\$|&|<([^>]*)>|(\d)(\d)?)/g, (reference, token, name, digit, secondDigit) => {
+    if (token === '$') return '$';
+    if (token === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? reference;
+    // Like `String.prototype.replace()`, `$12` refers to group 1 followed by `2` if there are less than 12 groups
+    const group = getGroup(+token);
+    if (group !== undefined) return group;
+    if (secondDigit && getGroup(+digit) !== undefined) return getGroup(+digit) + secondDigit;
+    return reference;
+  });
+}
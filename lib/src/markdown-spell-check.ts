@@ -0,0 +1,68 @@
+/**
+ * A spell checker, e.g. based on a Hunspell dictionary loaded with nspell.
+ */
+export interface MarkdownEditorSpellChecker {
+  /**
+   * Check whether the word is spelled correctly.
+   */
+  check(word: string): boolean;
+
+  /**
+   * Get suggestions for a misspelled word, sorted by relevance.
+   */
+  suggest(word: string): string[] | Promise<string[]>;
+}
+
+/**
+ * A storage for the list of words which are ignored by the spell check.
+ * The methods may work synchronously or return promises.
+ */
+export interface MarkdownEditorIgnoreListStorage {
+  /**
+   * Get the words stored under the specified key, or `undefined` if there are none.
+   */
+  get(key: string): string[] | undefined | Promise<string[] | undefined>;
+
+  /**
+   * Store the words under the specified key, replacing the previous list.
+   */
+  set(key: string, words: string[]): void | Promise<void>;
+}
+
+/**
+ * Stores the ignored words as JSON in the browser's `localStorage`.
+ */
+export class LocalStorageIgnoreListStorage implements MarkdownEditorIgnoreListStorage {
+  public get(key: string): string[] | undefined {
+    const json = window.localStorage.getItem(key);
+    return json ? JSON.parse(json) : undefined;
+  }
+
+  public set(key: string, words: string[]): void {
+    window.localStorage.setItem(key, JSON.stringify(words));
+  }
+}
+
+/**
+ * Find the words of a text which are subject to the spell check, with their offsets.
+ * Skipped are words containing digits or underscores, e.g. identifiers, single letters and words which are part of
+ * email addresses, urls or file names like `example.com`.
+ * @param text the text, e.g. of a token
+ */
+export function findWords(text: string): { word: string; from: number; to: number }[] {
+  const words: { word: string; from: number; to: number }[] = [];
+  const pattern = /[\p{L}\p{M}\p{N}_]+(?:['’][\p{L}\p{M}\p{N}_]+)*/gu;
+  const chunkPattern = /\S+/g;
+  let chunk: RegExpExecArray | null;
+  while ((chunk = chunkPattern.exec(text))) {
+    if (/@|:\/\/|[\p{L}\p{N}]\.[\p{L}\p{N}]/u.test(chunk[0])) continue;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(chunk[0]))) {
+      const word = match[0];
+      if (word.length < 2 || /[\p{N}_]/u.test(word)) continue;
+      const from = chunk.index + match.index;
+      words.push({ word, from, to: from + word.length });
+    }
+  }
+  return words;
+}
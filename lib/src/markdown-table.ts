@@ -0,0 +1,277 @@
+import { MarkdownEditorTableAlignment } from './markdown-editor-types';
+
+/**
+ * A parsed GFM table.
+ */
+export interface MarkdownTable {
+  /**
+   * The cell contents of each row. The first row is the header row.
+   * All rows have the same number of cells.
+   */
+  rows: string[][];
+
+  /**
+   * The alignment of each column as specified in the delimiter row.
+   */
+  alignments: MarkdownEditorTableAlignment[];
+}
+
+/**
+ * The position of a cell in a `MarkdownTable` and optionally the offset of the cursor
+ * relative to the start of the cell content.
+ */
+export interface MarkdownTableCell {
+  row: number;
+  column: number;
+  offset?: number;
+  /**
+   * Specifies whether the cursor is in the delimiter row instead of the header row (only if `row` is `0`).
+   */
+  delimiter?: boolean;
+}
+
+const DELIMITER_CELL_PATTERN = /^:?-+:?$/;
+
+/**
+ * Returns whether the specified line contains an unescaped pipe and may therefore be part of a table.
+ * @param line the line content
+ */
+export function isTableRow(line: string | undefined): boolean {
+  return !!line && line.trim() !== '' && /(^|[^\\])\|/.test(line);
+}
+
+/**
+ * Returns whether the specified line is a delimiter row, e.g. `| --- | :-: |`.
+ * @param line the line content
+ */
+export function isTableDelimiterRow(line: string | undefined): boolean {
+  return isTableRow(line) && splitTableRow(line as string).every((cell) => DELIMITER_CELL_PATTERN.test(cell));
+}
+
+/**
+ * Split a table row into the trimmed contents of its cells. Escaped pipes (`\|`) do not separate cells.
+ * @param line the line content
+ */
+export function splitTableRow(line: string): string[] {
+  return getTableCellSpans(line).map((span) => line.substring(span.start, span.end).trim());
+}
+
+/**
+ * Get the spans of all cells in a table row, i.e. the ranges between the separating pipes.
+ * Leading and trailing pipes of the row do not result in empty cells.
+ * @param line the line content
+ */
+export function getTableCellSpans(line: string): { start: number; end: number }[] {
+  const separators: number[] = [];
+  for (let ch = 0; ch < line.length; ch++) {
+    if (line[ch] === '\\') ch++;
+    else if (line[ch] === '|') separators.push(ch);
+  }
+
+  const contentStart = line.search(/\S|$/);
+  const contentEnd = line.replace(/\s+$/, '').length;
+  const hasLeadingPipe = separators[0] === contentStart;
+  const hasTrailingPipe =
+    separators.length > (hasLeadingPipe ? 1 : 0) && separators[separators.length - 1] === contentEnd - 1;
+
+  const boundaries = [hasLeadingPipe ? contentStart : -1, ...separators.slice(hasLeadingPipe ? 1 : 0)];
+  if (!hasTrailingPipe) boundaries.push(line.length);
+  const spans: { start: number; end: number }[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    spans.push({ start: boundaries[i] + 1, end: boundaries[i + 1] });
+  }
+  return spans;
+}
+
+/**
+ * Get the index of the cell in a table row, which contains the specified character position.
+ * @param line the line content
+ * @param ch the character position
+ */
+export function getTableCellIndexAt(line: string, ch: number): number {
+  const spans = getTableCellSpans(line);
+  const index = spans.findIndex((span) => ch <= span.end);
+  return index === -1 ? spans.length - 1 : index;
+}
+
+/**
+ * Get the character range of the content of the specified cell in a table row,
+ * excluding the surrounding whitespace.
+ * @param line the line content
+ * @param column the index of the cell
+ */
+export function getTableCellContentRange(line: string, column: number): { start: number; end: number } {
+  const span = getTableCellSpans(line)[column];
+  const cell = line.substring(span.start, span.end);
+  const trimmedStart = cell.search(/\S/);
+  if (trimmedStart === -1) {
+    const start = Math.min(span.start + 1, span.end);
+    return { start, end: start };
+  }
+  return { start: span.start + trimmedStart, end: span.start + cell.replace(/\s+$/, '').length };
+}
+
+/**
+ * Parse the lines of a GFM table, which consists of a header row, a delimiter row and any number of body rows.
+ * Missing cells are added, so that all rows have the number of cells of the longest row.
+ * @param lines the lines of the table
+ */
+export function parseTable(lines: string[]): MarkdownTable {
+  const rows = [lines[0], ...lines.slice(2)].map((line) => splitTableRow(line));
+  const alignments = splitTableRow(lines[1]).map((cell) => {
+    if (cell.startsWith(':') && cell.endsWith(':') && cell.length > 1) return 'center';
+    if (cell.startsWith(':')) return 'left';
+    if (cell.endsWith(':')) return 'right';
+    return 'none';
+  }) as MarkdownEditorTableAlignment[];
+
+  const columnCount = Math.max(alignments.length, ...rows.map((row) => row.length));
+  for (const row of rows) {
+    while (row.length < columnCount) row.push('');
+  }
+  while (alignments.length < columnCount) alignments.push('none');
+
+  return { rows, alignments };
+}
+
+/**
+ * Format a table as lines of Markdown, in which the cells of each column are padded to equal width.
+ * @param table the table
+ */
+export function formatTable(table: MarkdownTable): string[] {
+  const columnWidths = table.alignments.map((_alignment, column) =>
+    Math.max(3, ...table.rows.map((row) => row[column].length))
+  );
+
+  const formatRow = (cells: string[]) =>
+    '| ' +
+    cells
+      .map((cell, column) => {
+        const padding = columnWidths[column] - cell.length;
+        switch (table.alignments[column]) {
+          case 'right':
+            return ' '.repeat(padding) + cell;
+          case 'center':
+            return ' '.repeat(Math.floor(padding / 2)) + cell + ' '.repeat(Math.ceil(padding / 2));
+          default:
+            return cell + ' '.repeat(padding);
+        }
+      })
+      .join(' | ') +
+    ' |';
+
+  const delimiterRow =
+    '| ' +
+    table.alignments
+      .map((alignment, column) => {
+        const width = columnWidths[column];
+        switch (alignment) {
+          case 'left':
+            return ':' + '-'.repeat(width - 1);
+          case 'center':
+            return ':' + '-'.repeat(width - 2) + ':';
+          case 'right':
+            return '-'.repeat(width - 1) + ':';
+          default:
+            return '-'.repeat(width);
+        }
+      })
+      .join(' | ') +
+    ' |';
+
+  const [headerRow, ...bodyRows] = table.rows.map((row) => formatRow(row));
+  return [headerRow, delimiterRow, ...bodyRows];
+}
+
+/**
+ * Parse delimiter-separated text like CSV or TSV into rows of cells.
+ * Cells may be enclosed in double quotes to contain delimiters, line breaks or escaped quotes (`""`).
+ * @param text the text
+ * @param delimiter the delimiter of the cells, e.g. `,` or `\t`
+ */
+export function parseDelimitedText(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  text = text.replace(/\r\n?/g, '\n').replace(/\n$/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  rows.push([...row, cell]);
+  return rows;
+}
+
+/**
+ * Detect whether the text is tabular data separated by tabs (e.g. copied from a spreadsheet) or commas.
+ * The text is considered tabular, if it has at least two rows, which all consist of the same number of at least
+ * two cells. Quoted cells may contain the delimiter and line breaks. A trailing line break is ignored.
+ * @param text the text
+ * @returns the detected delimiter, or `undefined` if the text is not tabular
+ */
+export function detectDelimiter(text: string): '\t' | ',' | undefined {
+  const trimmedText = text.replace(/\r?\n$/, '');
+  return (['\t', ','] as const).find((delimiter) => {
+    const rows = parseDelimitedText(trimmedText, delimiter);
+    return rows.length >= 2 && rows[0].length >= 2 && rows.every((row) => row.length === rows[0].length);
+  });
+}
+
+/**
+ * Create a table from rows of plain text cells, with the first row as header row.
+ * Pipes in cell contents are escaped and line breaks are replaced with `<br>`.
+ * @param rows the rows of cells
+ */
+export function createTable(rows: string[][]): MarkdownTable {
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  return {
+    rows: rows.map((row) => {
+      const cells = row.map((cell) => cell.trim().replace(/\|/g, '\\|').replace(/\n/g, '<br>'));
+      while (cells.length < columnCount) cells.push('');
+      return cells;
+    }),
+    alignments: new Array(columnCount).fill('none'),
+  };
+}
+
+/**
+ * Convert a table to delimiter-separated text like CSV or TSV. Escaped pipes are unescaped and cells are
+ * enclosed in double quotes, if they contain the delimiter, double quotes or line breaks.
+ * @param table the table
+ * @param delimiter the delimiter of the cells, e.g. `,` or `\t`
+ */
+export function tableToDelimitedText(table: MarkdownTable, delimiter: string): string {
+  return table.rows
+    .map((row) =>
+      row
+        .map((cell) => {
+          cell = cell.replace(/\\\|/g, '|');
+          return cell.includes(delimiter) || /["\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+        })
+        .join(delimiter)
+    )
+    .join('\n');
+}